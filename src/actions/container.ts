@@ -5,9 +5,11 @@ import type { NoteUsecase } from "@/application/note/usecase";
 import { PostService } from "@/application/post/service";
 import type { PostUsecase } from "@/application/post/usecase";
 import { DefaultBlueskyAuthProvider } from "@/infrastructure/bluesky/auth-provider";
+import { DefaultBlueskyGraphProvider } from "@/infrastructure/bluesky/graph-provider";
 import { DefaultBlueskyPostProvider } from "@/infrastructure/bluesky/post-provider";
 import { DefaultGitHubAppProvider } from "@/infrastructure/github/app-provider";
 import { DefaultGitHubContentProvider } from "@/infrastructure/github/content-provider";
+import { IronSessionPreviewTokenProvider } from "@/infrastructure/iron-session/preview-token-provider";
 import { NextjsSessionManager } from "@/infrastructure/nextjs/session-manager";
 import { NextjsStateManager } from "@/infrastructure/nextjs/state-manager";
 import { getDatabase } from "@/infrastructure/sqlite/client";
@@ -15,9 +17,17 @@ import { DrizzleAuthSessionRepository } from "@/infrastructure/sqlite/repositori
 import { DrizzleAuthStateRepository } from "@/infrastructure/sqlite/repositories/account/auth-state-repository";
 import { DrizzleGitHubConnectionRepository } from "@/infrastructure/sqlite/repositories/account/github-connection-repository";
 import { DrizzleUserRepository } from "@/infrastructure/sqlite/repositories/account/user-repository";
+import { DrizzleBookFileRepository } from "@/infrastructure/sqlite/repositories/note/book-file-repository";
+import { DrizzleBookMemberRepository } from "@/infrastructure/sqlite/repositories/note/book-member-repository";
+import { DrizzleBookRedirectRepository } from "@/infrastructure/sqlite/repositories/note/book-redirect-repository";
 import { DrizzleBookRepository } from "@/infrastructure/sqlite/repositories/note/book-repository";
+import { DrizzleNoteRedirectRepository } from "@/infrastructure/sqlite/repositories/note/note-redirect-repository";
 import { DrizzleNoteRepository } from "@/infrastructure/sqlite/repositories/note/note-repository";
+import { DrizzleNoteRevisionRepository } from "@/infrastructure/sqlite/repositories/note/note-revision-repository";
+import { DrizzleNoteVersionRepository } from "@/infrastructure/sqlite/repositories/note/note-version-repository";
+import { DrizzleSyncJobRepository } from "@/infrastructure/sqlite/repositories/note/sync-job-repository";
 import { DrizzleTagRepository } from "@/infrastructure/sqlite/repositories/note/tag-repository";
+import { DrizzleWebhookDeliveryRepository } from "@/infrastructure/sqlite/repositories/note/webhook-delivery-repository";
 import { DrizzlePostRepository } from "@/infrastructure/sqlite/repositories/post/post-repository";
 import type { cookies } from "next/headers";
 import { z } from "zod";
@@ -55,8 +65,16 @@ export class Container {
       db,
     );
     const bookRepository = new DrizzleBookRepository(db);
+    const bookFileRepository = new DrizzleBookFileRepository(db);
+    const bookRedirectRepository = new DrizzleBookRedirectRepository(db);
+    const bookMemberRepository = new DrizzleBookMemberRepository(db);
     const noteRepository = new DrizzleNoteRepository(db);
+    const noteRedirectRepository = new DrizzleNoteRedirectRepository(db);
+    const noteRevisionRepository = new DrizzleNoteRevisionRepository(db);
+    const noteVersionRepository = new DrizzleNoteVersionRepository(db);
+    const syncJobRepository = new DrizzleSyncJobRepository(db);
     const tagRepository = new DrizzleTagRepository(db);
+    const webhookDeliveryRepository = new DrizzleWebhookDeliveryRepository(db);
     const postRepository = new DrizzlePostRepository(db);
 
     const blueskyAuthProvider = new DefaultBlueskyAuthProvider({
@@ -79,6 +97,8 @@ export class Container {
       },
     });
 
+    const blueskyGraphProvider = new DefaultBlueskyGraphProvider();
+
     const githubAppProvider = new DefaultGitHubAppProvider({
       config: {
         clientId: this.env.GITHUB_CLIENT_ID,
@@ -107,6 +127,12 @@ export class Container {
       },
     });
 
+    const previewTokenProvider = new IronSessionPreviewTokenProvider({
+      config: {
+        secret: this.env.AUTH_SECRET,
+      },
+    });
+
     this.accountService = new AccountService({
       deps: {
         publicUrl: this.env.PUBLIC_URL,
@@ -123,11 +149,22 @@ export class Container {
 
     this.noteService = new NoteService({
       deps: {
+        blueskyGraphProvider,
         githubContentProvider,
+        previewTokenProvider,
         githubConnectionRepository,
         bookRepository,
+        bookFileRepository,
+        bookMemberRepository,
+        bookRedirectRepository,
         noteRepository,
+        noteRedirectRepository,
+        noteRevisionRepository,
+        noteVersionRepository,
+        syncJobRepository,
         tagRepository,
+        webhookDeliveryRepository,
+        userRepository,
       },
     });
 
@@ -5,11 +5,11 @@ import type {
   AddBookInput,
   SearchNotesInput,
 } from "@/application/note/usecase";
+import type { BookMemberRole } from "@/domain/note/models/book-member";
 import type { PaginationParams } from "@/domain/types/pagination";
 import { mdToHtml } from "@/lib/markdown";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
-import { after } from "next/server";
 import { cache } from "react";
 import { container } from "./container";
 
@@ -32,7 +32,7 @@ export async function addBook(input: AddBookInput) {
     .bind(container.noteService)(input)
     .match(
       () => {
-        revalidatePath("/[handle]/[owner]/[repo]", "page");
+        revalidatePath("/[handle]/[owner]/[repo]", "layout");
         return true;
       },
       () => {
@@ -49,28 +49,152 @@ async function _listBooks(userId: string) {
 }
 
 export const getBook = cache(_getBook);
-async function _getBook(owner: string, repo: string) {
+async function _getBook(owner: string, repo: string, slug?: string) {
   return await container.noteService.getBookByRepo
+    .bind(container.noteService)({ owner, repo, slug })
+    .unwrapOr(null);
+}
+
+export const listBooksByRepo = cache(_listBooksByRepo);
+async function _listBooksByRepo(owner: string, repo: string) {
+  return container.noteService.listBooksByRepo
+    .bind(container.noteService)({ owner, repo })
+    .unwrapOr([]);
+}
+
+export async function getBookRedirect(owner: string, repo: string) {
+  return await container.noteService.getBookRedirect
     .bind(container.noteService)({ owner, repo })
     .unwrapOr(null);
 }
 
-export async function syncNotes(owner: string, repo: string) {
+export async function syncNotes(owner: string, repo: string, slug?: string) {
   const session = await auth();
 
   if (!session) {
-    return false;
+    return null;
   }
 
-  after(async () => {
-    await container.noteService.syncNotes.bind(container.noteService)({
+  return container.noteService.syncNotes
+    .bind(container.noteService)({
       userId: session.user.id,
       owner,
       repo,
-    });
-  });
+      slug,
+    })
+    .andTee(() => revalidatePath("/[handle]/[owner]/[repo]", "layout"))
+    .unwrapOr(null);
+}
+
+export async function listWebhookDeliveries(bookId: string) {
+  const session = await auth();
+
+  if (!session) {
+    return [];
+  }
+
+  return container.noteService.listWebhookDeliveries
+    .bind(container.noteService)({
+      userId: session.user.id,
+      bookId,
+    })
+    .unwrapOr([]);
+}
+
+export async function updateBookSettings(
+  bookId: string,
+  settings: {
+    branch: string | null;
+    rootPath: string | null;
+    ignore: string[];
+  },
+) {
+  const session = await auth();
+
+  if (!session) {
+    return null;
+  }
+
+  return container.noteService.updateBookSettings
+    .bind(container.noteService)({
+      userId: session.user.id,
+      bookId,
+      ...settings,
+    })
+    .andTee(() => revalidatePath("/[handle]/[owner]/[repo]", "layout"))
+    .unwrapOr(null);
+}
+
+export const getBookRole = cache(_getBookRole);
+async function _getBookRole(bookId: string) {
+  const session = await auth();
+
+  if (!session) {
+    return null;
+  }
+
+  return container.noteService.getBookRole
+    .bind(container.noteService)({
+      userId: session.user.id,
+      bookId,
+    })
+    .unwrapOr(null);
+}
+
+export async function listBookMembers(bookId: string) {
+  const session = await auth();
+
+  if (!session) {
+    return [];
+  }
+
+  return container.noteService.listBookMembers
+    .bind(container.noteService)({
+      userId: session.user.id,
+      bookId,
+    })
+    .unwrapOr([]);
+}
+
+export async function inviteBookMember(
+  bookId: string,
+  handle: string,
+  role: BookMemberRole,
+) {
+  const session = await auth();
+
+  if (!session) {
+    return null;
+  }
+
+  return container.noteService.inviteBookMember
+    .bind(container.noteService)({
+      userId: session.user.id,
+      bookId,
+      handle,
+      role,
+    })
+    .unwrapOr(null);
+}
+
+export async function removeBookMember(bookId: string, memberId: string) {
+  const session = await auth();
+
+  if (!session) {
+    return false;
+  }
 
-  return true;
+  return container.noteService.removeBookMember
+    .bind(container.noteService)({
+      userId: session.user.id,
+      bookId,
+      memberId,
+    })
+    .andTee(() => revalidatePath("/[handle]/[owner]/[repo]", "layout"))
+    .match(
+      () => true,
+      () => false,
+    );
 }
 
 export async function deleteBook(bookId: string, redirectPath?: string) {
@@ -130,9 +254,128 @@ export async function searchNotes(input: SearchNotesInput) {
 }
 
 export const getNote = cache(_getNote);
-async function _getNote(notePath: string) {
+async function _getNote(
+  handle: string,
+  owner: string,
+  repo: string,
+  slug: string,
+  notePath: string,
+) {
+  const session = await auth();
   return container.noteService.getNote
-    .bind(container.noteService)({ notePath })
+    .bind(container.noteService)({
+      handle,
+      owner,
+      repo,
+      slug,
+      notePath,
+      userId: session?.user.id,
+    })
+    .unwrapOr(null);
+}
+
+export const getNoteTree = cache(_getNoteTree);
+async function _getNoteTree(bookId: string) {
+  return container.noteService.getNoteTree
+    .bind(container.noteService)({ bookId })
+    .unwrapOr([]);
+}
+
+export async function getAdjacentNotes(bookId: string, notePath: string) {
+  return container.noteService.getAdjacentNotes
+    .bind(container.noteService)({ bookId, notePath })
+    .unwrapOr({ previous: null, next: null });
+}
+
+export async function listBacklinks(noteId: string) {
+  return container.noteService.listBacklinks
+    .bind(container.noteService)({ noteId })
+    .unwrapOr([]);
+}
+
+export const listNoteRevisions = cache(_listNoteRevisions);
+async function _listNoteRevisions(noteId: string) {
+  return container.noteService.listNoteRevisions
+    .bind(container.noteService)({ noteId })
+    .unwrapOr([]);
+}
+
+export const listNoteCommits = cache(_listNoteCommits);
+async function _listNoteCommits(
+  handle: string,
+  owner: string,
+  repo: string,
+  slug: string,
+  notePath: string,
+) {
+  const session = await auth();
+  return container.noteService.listNoteCommits
+    .bind(container.noteService)({
+      handle,
+      owner,
+      repo,
+      slug,
+      notePath,
+      userId: session?.user.id,
+    })
+    .unwrapOr([]);
+}
+
+export async function diffNoteVersions(
+  handle: string,
+  owner: string,
+  repo: string,
+  slug: string,
+  notePath: string,
+  base: string | null,
+  head: string,
+) {
+  const session = await auth();
+  return container.noteService.diffNoteVersions
+    .bind(container.noteService)({
+      handle,
+      owner,
+      repo,
+      slug,
+      notePath,
+      userId: session?.user.id,
+      base,
+      head,
+    })
+    .unwrapOr(null);
+}
+
+export async function createNotePreview(
+  bookId: string,
+  path: string,
+  expiresIn: number,
+) {
+  const session = await auth();
+
+  if (!session) {
+    return null;
+  }
+
+  return container.noteService.createNotePreview
+    .bind(container.noteService)({
+      userId: session.user.id,
+      bookId,
+      path,
+      expiresIn,
+    })
+    .unwrapOr(null);
+}
+
+export const getNotePreview = cache(_getNotePreview);
+async function _getNotePreview(token: string) {
+  return container.noteService.getNotePreview
+    .bind(container.noteService)({ token })
+    .unwrapOr(null);
+}
+
+export async function getNoteRedirect(bookId: string, notePath: string) {
+  return container.noteService.getNoteRedirect
+    .bind(container.noteService)({ bookId, notePath })
     .unwrapOr(null);
 }
 
@@ -145,11 +388,12 @@ export async function deleteNote(noteId: string, redirectPath?: string) {
 
   const result = await container.noteService.deleteNote
     .bind(container.noteService)({
+      userId: session.user.id,
       noteId,
     })
     .match(
       () => {
-        revalidatePath("/[handle]/[owner]/[repo]", "page");
+        revalidatePath("/[handle]/[owner]/[repo]", "layout");
         return true;
       },
       () => false,
@@ -41,6 +41,6 @@ export async function postNote(bookId: string, notePath: string, text: string) {
       did: session.user.did,
       text,
     })
-    .andTee(() => revalidatePath(`/[handle]/[owner]/[repo]/${notePath}`))
+    .andTee(() => revalidatePath("/[handle]/[owner]/[repo]", "layout"))
     .unwrapOr(null);
 }
@@ -82,7 +82,7 @@ export const handleZodError = (
   }
 };
 
-function parseZodErrorMessage(err: ZodError) {
+export function parseZodErrorMessage(err: ZodError) {
   try {
     const arr = JSON.parse(err.message) as Array<{
       message: string;
@@ -0,0 +1,20 @@
+import type { Context, Next } from "hono";
+import { createMiddleware } from "hono/factory";
+import { HTTPException } from "hono/http-exception";
+import type { HonoEnv } from "../app";
+import { HTTPExceptionCode } from "../error";
+
+/**
+ * 定期実行からのリクエストであることをCRON_SECRETで検証する
+ */
+export const cron = createMiddleware<HonoEnv>(
+  async (c: Context<HonoEnv>, next: Next) => {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || c.req.header("Authorization") !== `Bearer ${secret}`) {
+      throw new HTTPException(HTTPExceptionCode.UNAUTHORIZED, {
+        message: "Invalid cron secret",
+      });
+    }
+    await next();
+  },
+);
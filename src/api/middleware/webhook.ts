@@ -0,0 +1,25 @@
+import type { Context, Next } from "hono";
+import { createMiddleware } from "hono/factory";
+import { HTTPException } from "hono/http-exception";
+import type { HonoEnv } from "../app";
+import { HTTPExceptionCode } from "../error";
+
+/**
+ * GitHub Webhookの署名を生のリクエストボディに対して検証する
+ * 後続のバリデーターより前に置き、ボディを読み込ませる
+ */
+export const githubWebhook = createMiddleware<HonoEnv>(
+  async (c: Context<HonoEnv>, next: Next) => {
+    const result = await c.var.container.noteService.verifyWebhook({
+      payload: await c.req.text(),
+      signature: c.req.header("X-Hub-Signature-256") || "",
+    });
+
+    if (result.isErr()) {
+      throw new HTTPException(HTTPExceptionCode.UNAUTHORIZED, {
+        message: "Invalid webhook signature",
+      });
+    }
+    await next();
+  },
+);
@@ -1,76 +1,241 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { validator } from "hono/validator";
+import { okAsync } from "neverthrow";
+import { after } from "next/server";
 import { z } from "zod";
-import type { HonoEnv } from "../app";
-import { handleError, handleZodError } from "../error";
-import { githubWebhookRequestSchema } from "../schema/book";
-
-export const bookRoutes = new Hono<HonoEnv>().post(
-  "/github/webhook",
-  zValidator("json", githubWebhookRequestSchema, handleZodError),
-  zValidator(
-    "header",
-    z.object({
-      "X-GitHub-Event": z.literal("push"),
-      "X-Hub-Signature-256": z.string().nonempty(),
+import type { Container, HonoEnv } from "../app";
+import {
+  HTTPExceptionCode,
+  handleError,
+  handleZodError,
+  parseZodErrorMessage,
+} from "../error";
+import { githubWebhook } from "../middleware/webhook";
+import {
+  type GithubWebhookEvent,
+  githubWebhookEventSchema,
+} from "../schema/book";
+import { processSyncJobs } from "../worker";
+
+/**
+ * Webhook配信を紐付けるリポジトリを求める
+ * 削除されるブックには紐付けない
+ */
+function getDeliveryRepository({ event, payload }: GithubWebhookEvent) {
+  switch (event) {
+    case "push":
+      return {
+        owner: payload.repository.owner.login,
+        repo: payload.repository.name,
+      };
+    case "repository":
+      return payload.action === "deleted"
+        ? {}
+        : { owner: payload.fromOwner, repo: payload.fromRepo };
+    default:
+      return {};
+  }
+}
+
+/**
+ * リポジトリの名前の変更や移管、削除、アプリのアクセスの変更をブックに反映する
+ */
+function handleRepositoryEvent(
+  container: Container,
+  { event, payload }: Exclude<GithubWebhookEvent, { event: "push" }>,
+) {
+  switch (event) {
+    case "repository":
+      if (payload.action === "renamed" || payload.action === "transferred") {
+        return container.noteService
+          .moveBook(payload)
+          .map(({ moved, retired }) => ({ moved: moved.length, retired }));
+      }
+      if (payload.action === "deleted") {
+        return container.noteService
+          .retireBooks({ repositories: [payload] })
+          .map((retired) => ({ moved: 0, retired }));
+      }
+      break;
+    case "installation":
+      if (payload.action === "deleted") {
+        return container.noteService
+          .retireBooks({ repositories: payload.repositories })
+          .map((retired) => ({ moved: 0, retired }));
+      }
+      break;
+    case "installation_repositories":
+      if (payload.action === "removed") {
+        return container.noteService
+          .retireBooks({ repositories: payload.repositories_removed })
+          .map((retired) => ({ moved: 0, retired }));
+      }
+      break;
+  }
+  return okAsync({ moved: 0, retired: 0 });
+}
+
+export const bookRoutes = new Hono<HonoEnv>()
+  .post(
+    "/github/webhook",
+    githubWebhook,
+    zValidator(
+      "header",
+      z.object({
+        "X-GitHub-Event": z.enum([
+          "push",
+          "repository",
+          "installation",
+          "installation_repositories",
+        ]),
+        "X-GitHub-Delivery": z.string().nonempty(),
+      }),
+      handleZodError,
+    ),
+    // ボディの形式はイベントの種類によって異なる
+    validator("json", (value, c) => {
+      const result = githubWebhookEventSchema.safeParse({
+        event: c.req.header("X-GitHub-Event"),
+        payload: value,
+      });
+      if (!result.success) {
+        throw new HTTPException(HTTPExceptionCode.BAD_REQUEST, {
+          message: parseZodErrorMessage(result.error),
+        });
+      }
+      return result.data;
     }),
-    handleZodError,
-  ),
-  async (c) => {
-    const result = await c.var.container.noteService.pushNotes({
-      owner: c.req.valid("json").repository.owner.login,
-      repo: c.req.valid("json").repository.name,
-      installationId: c.req.valid("json").installation.id,
-      commits: c.req.valid("json").commits,
-    });
-
-    if (result.isErr()) {
-      return handleError(result.error, c);
-    }
-
-    const { synced, added } = result.value;
-
-    if (added.length < 1) {
-      return c.json({ synced, added: [] });
-    }
-
-    const [userResult, bookResult] = await Promise.all([
-      c.var.container.accountService.getUserById({ userId: added[0].userId }),
-      c.var.container.noteService.getBook({ bookId: added[0].bookId }),
-    ]);
-
-    if (userResult.isErr()) {
-      return handleError(userResult.error, c);
-    }
-
-    if (bookResult.isErr()) {
-      return handleError(bookResult.error, c);
-    }
-
-    const user = userResult.value;
-    const book = bookResult.value;
-
-    const posted = await Promise.all(
-      added.map((note) =>
-        c.var.container.postService
-          .postNote({
-            userId: note.userId,
-            bookId: note.bookId,
-            notePath: note.path,
-            did: user.did,
-            text: `${note.title}
-
-Posted on @md!
-${process.env.NEXT_PUBLIC_URL}/${user.handle}/${book.owner}/${book.repo}/${note.path}`,
-          })
-          .unwrapOr(null),
-      ),
-    );
-
-    return c.json({
-      synced,
-      added: added.map((note) => note.id),
-      posted: posted.filter((post) => post !== null).map((post) => post.id),
-    });
-  },
-);
+    async (c) => {
+      const webhookEvent = c.req.valid("json");
+      const deliveryId = c.req.valid("header")["X-GitHub-Delivery"];
+      const deliveryResult =
+        await c.var.container.noteService.startWebhookDelivery({
+          deliveryId,
+          event: webhookEvent.event,
+          ...getDeliveryRepository(webhookEvent),
+        });
+
+      if (deliveryResult.isErr()) {
+        return handleError(deliveryResult.error, c);
+      }
+
+      if (!deliveryResult.value) {
+        return c.json(
+          { error: { message: "Delivery has already been received" } },
+          HTTPExceptionCode.CONFLICT,
+        );
+      }
+
+      if (webhookEvent.event !== "push") {
+        const result = await handleRepositoryEvent(
+          c.var.container,
+          webhookEvent,
+        );
+
+        await c.var.container.noteService.finishWebhookDelivery({
+          deliveryId,
+          error: result.isErr() ? result.error.message : null,
+        });
+
+        if (result.isErr()) {
+          return handleError(result.error, c);
+        }
+
+        return c.json(result.value);
+      }
+
+      const { payload } = webhookEvent;
+      const result = await c.var.container.noteService.enqueuePushNotes({
+        owner: payload.repository.owner.login,
+        repo: payload.repository.name,
+        installationId: payload.installation.id,
+        before: payload.before,
+        after: payload.after,
+        commits: payload.commits,
+        deliveryId,
+        ref: payload.ref,
+        defaultBranch: payload.repository.default_branch,
+        deleted: payload.deleted,
+      });
+
+      if (result.isErr()) {
+        await c.var.container.noteService.finishWebhookDelivery({
+          deliveryId,
+          error: result.error.message,
+        });
+        return handleError(result.error, c);
+      }
+
+      if (result.value.length === 0) {
+        await c.var.container.noteService.finishWebhookDelivery({
+          deliveryId,
+          error: null,
+        });
+        return c.json({ jobIds: [], skipped: true });
+      }
+
+      // レスポンスを返した後に同期ジョブを処理する
+      after(() => processSyncJobs(c.var.container));
+
+      return c.json({ jobIds: result.value.map((job) => job.id) }, 202);
+    },
+  )
+  .get(
+    "/:owner/:repo/assets/:path{.+}",
+    zValidator(
+      "param",
+      z.object({
+        owner: z.string().nonempty(),
+        repo: z.string().nonempty(),
+        path: z.string().nonempty(),
+      }),
+      handleZodError,
+    ),
+    zValidator(
+      "query",
+      z.object({
+        book: z.string().optional(),
+        preview: z.string().optional(),
+      }),
+      handleZodError,
+    ),
+    async (c) => {
+      const { owner, repo, path } = c.req.valid("param");
+      const { book, preview } = c.req.valid("query");
+      const result = await c.var.container.noteService.getAsset({
+        owner,
+        repo,
+        slug: book,
+        path,
+        userId: c.get("user")?.id || null,
+        previewToken: preview,
+      });
+
+      if (result.isErr()) {
+        return handleError(result.error, c);
+      }
+
+      const { content, sha, contentType, isPublic } = result.value;
+      const etag = `"${sha}"`;
+      const headers = {
+        "Content-Type": contentType,
+        // 閲覧できるユーザーが限られるアセットは共有キャッシュに保存させない
+        "Cache-Control": isPublic
+          ? "public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800"
+          : "private, max-age=3600",
+        ETag: etag,
+        "X-Content-Type-Options": "nosniff",
+        // SVG内のスクリプトを実行させない
+        "Content-Security-Policy":
+          "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+      };
+
+      if (c.req.header("If-None-Match") === etag) {
+        return c.body(null, 304, headers);
+      }
+
+      return c.body(content, 200, headers);
+    },
+  );
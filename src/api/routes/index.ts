@@ -2,8 +2,10 @@ import { Hono } from "hono";
 import type { HonoEnv } from "../app";
 import { authRoutes } from "./auth";
 import { bookRoutes } from "./book";
+import { jobRoutes } from "./job";
 
 export const routes = new Hono<HonoEnv>()
   .route("/auth", authRoutes)
-  .route("/book", bookRoutes);
+  .route("/book", bookRoutes)
+  .route("/job", jobRoutes);
 export type Routes = typeof routes;
@@ -0,0 +1,27 @@
+import { Hono } from "hono";
+import type { HonoEnv } from "../app";
+import { handleError } from "../error";
+import { cron } from "../middleware/cron";
+import { processSyncJobs } from "../worker";
+
+export const jobRoutes = new Hono<HonoEnv>()
+  .get("/sync", cron, async (c) => {
+    const processed = await processSyncJobs(c.var.container);
+    return c.json({ processed });
+  })
+  // マイグレーションで同期状態をリセットしたブックのノートとアセットの参照を作り直す
+  .get("/resync", cron, async (c) => {
+    const result = await c.var.container.noteService.resyncBooks();
+    if (result.isErr()) {
+      return handleError(result.error, c);
+    }
+    return c.json(result.value);
+  })
+  // 既存のWebhookにシークレットや購読するイベントの変更を反映する
+  .get("/webhooks", cron, async (c) => {
+    const result = await c.var.container.noteService.refreshWebhooks();
+    if (result.isErr()) {
+      return handleError(result.error, c);
+    }
+    return c.json(result.value);
+  });
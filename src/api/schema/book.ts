@@ -7,10 +7,109 @@ export const githubWebhookRequestSchema = z.object({
       login: z.string().nonempty(),
     }),
     name: z.string().nonempty(),
+    default_branch: z.string().nonempty(),
   }),
   installation: z.object({
     id: z.number().int().positive(),
   }),
+  ref: z.string().nonempty(),
+  deleted: z.boolean().default(false),
+  before: z.string().nonempty(),
+  after: z.string().nonempty(),
   commits: z.array(gitHubCommitSchema),
 });
 export type GithubWebhookRequest = z.infer<typeof githubWebhookRequestSchema>;
+
+const githubRepositoryFullNameSchema = z
+  .object({
+    full_name: z.string().regex(/^[^/]+\/[^/]+$/),
+  })
+  .transform(({ full_name }) => {
+    const [owner, repo] = full_name.split("/");
+    return { owner, repo };
+  });
+
+export const githubRepositoryEventRequestSchema = z
+  .object({
+    action: z.string(),
+    repository: z.object({
+      owner: z.object({
+        login: z.string().nonempty(),
+      }),
+      name: z.string().nonempty(),
+    }),
+    changes: z
+      .object({
+        repository: z
+          .object({
+            name: z.object({
+              from: z.string().nonempty(),
+            }),
+          })
+          .optional(),
+        owner: z
+          .object({
+            from: z.object({
+              user: z.object({ login: z.string().nonempty() }).optional(),
+              organization: z
+                .object({ login: z.string().nonempty() })
+                .optional(),
+            }),
+          })
+          .optional(),
+      })
+      .optional(),
+  })
+  .transform(({ action, repository, changes }) => ({
+    action,
+    owner: repository.owner.login,
+    repo: repository.name,
+    // 名前の変更や移管の前のリポジトリ
+    fromOwner:
+      changes?.owner?.from.user?.login ||
+      changes?.owner?.from.organization?.login ||
+      repository.owner.login,
+    fromRepo: changes?.repository?.name.from || repository.name,
+  }));
+export type GithubRepositoryEventRequest = z.infer<
+  typeof githubRepositoryEventRequestSchema
+>;
+
+export const githubInstallationEventRequestSchema = z.object({
+  action: z.string(),
+  repositories: z.array(githubRepositoryFullNameSchema).default([]),
+});
+export type GithubInstallationEventRequest = z.infer<
+  typeof githubInstallationEventRequestSchema
+>;
+
+export const githubInstallationRepositoriesEventRequestSchema = z.object({
+  action: z.string(),
+  repositories_removed: z.array(githubRepositoryFullNameSchema).default([]),
+});
+export type GithubInstallationRepositoriesEventRequest = z.infer<
+  typeof githubInstallationRepositoriesEventRequestSchema
+>;
+
+/**
+ * X-GitHub-Eventヘッダーとリクエストボディの組み合わせ
+ */
+export const githubWebhookEventSchema = z.discriminatedUnion("event", [
+  z.object({
+    event: z.literal("push"),
+    payload: githubWebhookRequestSchema,
+  }),
+  z.object({
+    event: z.literal("repository"),
+    payload: githubRepositoryEventRequestSchema,
+  }),
+  z.object({
+    event: z.literal("installation"),
+    payload: githubInstallationEventRequestSchema,
+  }),
+  z.object({
+    event: z.literal("installation_repositories"),
+    payload: githubInstallationRepositoriesEventRequestSchema,
+  }),
+]);
+export type GithubWebhookEvent = z.infer<typeof githubWebhookEventSchema>;
@@ -0,0 +1,92 @@
+import { getBookPath } from "@/domain/note/models/book";
+import type { Note } from "@/domain/note/models/note";
+import { type SyncJob, SyncJobStatus } from "@/domain/note/models/sync-job";
+import type { Container } from "./app";
+
+/**
+ * 実行可能な同期ジョブを順に処理する
+ * 失敗したジョブは待ち時間を延ばしながら再実行待ちにする
+ * @returns 処理したジョブの数
+ */
+export async function processSyncJobs(container: Container, limit = 10) {
+  let processed = 0;
+  while (processed < limit) {
+    const job = await container.noteService.claimSyncJob().unwrapOr(null);
+    if (!job) {
+      break;
+    }
+
+    await runSyncJob(container, job);
+    processed++;
+  }
+  return processed;
+}
+
+async function runSyncJob(container: Container, job: SyncJob) {
+  const result = await container.noteService.pushNotes({
+    ...job.payload,
+    bookId: job.bookId,
+  });
+
+  if (result.isErr()) {
+    const failedJob = await container.noteService
+      .failSyncJob({ job, error: result.error.message })
+      .unwrapOr(null);
+
+    if (job.deliveryId && failedJob?.status === SyncJobStatus.FAILED) {
+      await container.noteService.finishWebhookDelivery({
+        deliveryId: job.deliveryId,
+        error: result.error.message,
+      });
+    }
+    return;
+  }
+
+  await postNotes(container, result.value.added);
+  await container.noteService.completeSyncJob({ jobId: job.id });
+
+  if (job.deliveryId) {
+    await container.noteService.finishWebhookDelivery({
+      deliveryId: job.deliveryId,
+      error: null,
+    });
+  }
+}
+
+/**
+ * 新しく公開されたノートをBlueskyに投稿する
+ */
+async function postNotes(container: Container, notes: Note[]) {
+  if (notes.length < 1) {
+    return;
+  }
+
+  const [userResult, bookResult] = await Promise.all([
+    container.accountService.getUserById({ userId: notes[0].userId }),
+    container.noteService.getBook({ bookId: notes[0].bookId }),
+  ]);
+
+  if (userResult.isErr() || bookResult.isErr()) {
+    return;
+  }
+
+  const user = userResult.value;
+  const book = bookResult.value;
+
+  await Promise.all(
+    notes.map((note) =>
+      container.postService
+        .postNote({
+          userId: note.userId,
+          bookId: note.bookId,
+          notePath: note.path,
+          did: user.did,
+          text: `${note.title}
+
+Posted on @md!
+${process.env.NEXT_PUBLIC_URL}${getBookPath(user.handle, book)}/${note.path}`,
+        })
+        .unwrapOr(null),
+    ),
+  );
+}
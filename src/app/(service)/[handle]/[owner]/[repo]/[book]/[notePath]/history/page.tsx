@@ -0,0 +1,30 @@
+import type { RawSearchParams } from "@/lib/router";
+import {
+  HistoryView,
+  generateHistoryMetadata,
+} from "../../../_components/HistoryView";
+
+type Props = {
+  params: Promise<{
+    handle: string;
+    owner: string;
+    repo: string;
+    book: string;
+    notePath: string;
+  }>;
+  searchParams: Promise<RawSearchParams>;
+};
+
+export const revalidate = 60;
+
+export async function generateMetadata({ params }: Props) {
+  const { book, ...rest } = await params;
+  return generateHistoryMetadata({ ...rest, slug: book });
+}
+
+export default async function Page({ params, searchParams }: Props) {
+  const { book, ...rest } = await params;
+  return (
+    <HistoryView {...rest} slug={book} searchParams={await searchParams} />
+  );
+}
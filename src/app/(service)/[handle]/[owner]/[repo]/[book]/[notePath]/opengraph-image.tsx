@@ -0,0 +1,25 @@
+import { createNoteImage } from "../../_components/NoteImage";
+
+export const runtime = "nodejs";
+
+export const alt = "OpenGraphImage";
+export const size = {
+  width: 1200,
+  height: 630,
+};
+export const contentType = "image/png";
+
+type Props = {
+  params: Promise<{
+    handle: string;
+    owner: string;
+    repo: string;
+    book: string;
+    notePath: string;
+  }>;
+};
+
+export default async function Image({ params }: Props) {
+  const { book, ...rest } = await params;
+  return createNoteImage({ ...rest, slug: book });
+}
@@ -0,0 +1,76 @@
+import { getBook, listAllNotes } from "@/actions/note";
+import { isBookSlug } from "@/domain/note/models/book";
+import type { RawSearchParams } from "@/lib/router";
+import {
+  HistoryView,
+  generateHistoryMetadata,
+} from "../../_components/HistoryView";
+import { NoteView, generateNoteMetadata } from "../../_components/NoteView";
+
+type Props = {
+  params: Promise<{
+    handle: string;
+    owner: string;
+    repo: string;
+    book: string;
+    notePath: string;
+  }>;
+  searchParams: Promise<RawSearchParams>;
+};
+
+export const revalidate = 60;
+
+type ParentProps = {
+  params: {
+    handle: string;
+    owner: string;
+    repo: string;
+    book: string;
+  };
+};
+
+export const generateStaticParams = async ({
+  params: { handle, owner, repo, book: slug },
+}: ParentProps) => {
+  const book = await getBook(owner, repo, slug);
+  if (!book) {
+    return [];
+  }
+  const notes = await listAllNotes(book.id);
+  return notes.map((note) => ({
+    handle,
+    owner,
+    repo,
+    book: slug,
+    notePath: note.path,
+  }));
+};
+
+/**
+ * 既定のブックのノートの履歴ページ
+ * ノートのパスは拡張子を含むため、ブックのスラッグと区別できる
+ */
+function isDefaultBookHistory(book: string, notePath: string) {
+  return !isBookSlug(book) && notePath === "history";
+}
+
+export async function generateMetadata({ params }: Props) {
+  const { book, notePath, ...rest } = await params;
+  return isDefaultBookHistory(book, notePath)
+    ? generateHistoryMetadata({ ...rest, slug: "", notePath: book })
+    : generateNoteMetadata({ ...rest, slug: book, notePath });
+}
+
+export default async function Page({ params, searchParams }: Props) {
+  const { book, notePath, ...rest } = await params;
+  return isDefaultBookHistory(book, notePath) ? (
+    <HistoryView
+      {...rest}
+      slug=""
+      notePath={book}
+      searchParams={await searchParams}
+    />
+  ) : (
+    <NoteView {...rest} slug={book} notePath={notePath} />
+  );
+}
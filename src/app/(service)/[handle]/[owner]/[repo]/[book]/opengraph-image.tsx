@@ -0,0 +1,28 @@
+import { isBookSlug } from "@/domain/note/models/book";
+import { createBookImage } from "../_components/BookImage";
+import { createNoteImage } from "../_components/NoteImage";
+
+export const runtime = "nodejs";
+
+export const alt = "OpenGraphImage";
+export const size = {
+  width: 1200,
+  height: 630,
+};
+export const contentType = "image/png";
+
+type Props = {
+  params: Promise<{
+    handle: string;
+    owner: string;
+    repo: string;
+    book: string;
+  }>;
+};
+
+export default async function Image({ params }: Props) {
+  const { book, ...rest } = await params;
+  return isBookSlug(book)
+    ? createBookImage({ ...rest, slug: book })
+    : createNoteImage({ ...rest, slug: "", notePath: book });
+}
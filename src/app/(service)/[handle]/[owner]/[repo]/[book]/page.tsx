@@ -0,0 +1,64 @@
+import { getBook, listAllNotes, listBooksByRepo } from "@/actions/note";
+import { isBookSlug } from "@/domain/note/models/book";
+import type { RawSearchParams } from "@/lib/router";
+import { BookView, generateBookMetadata } from "../_components/BookView";
+import { NoteView, generateNoteMetadata } from "../_components/NoteView";
+
+type Props = {
+  params: Promise<{
+    handle: string;
+    owner: string;
+    repo: string;
+    book: string;
+  }>;
+  searchParams: Promise<RawSearchParams>;
+};
+
+export const revalidate = 60;
+
+type ParentProps = {
+  params: {
+    handle: string;
+    owner: string;
+    repo: string;
+  };
+};
+
+/**
+ * リポジトリの既定のブックのノートと、スラッグを持つブックを生成する
+ */
+export const generateStaticParams = async ({
+  params: { handle, owner, repo },
+}: ParentProps) => {
+  const [book, books] = await Promise.all([
+    getBook(owner, repo),
+    listBooksByRepo(owner, repo),
+  ]);
+  const notes = book ? await listAllNotes(book.id) : [];
+  return [
+    ...books.filter(({ slug }) => slug).map(({ slug }) => slug),
+    ...notes.map((note) => note.path),
+  ].map((segment) => ({
+    handle,
+    owner,
+    repo,
+    book: segment,
+  }));
+};
+
+// ノートのパスは拡張子を含むため、ブックのスラッグと区別できる
+export async function generateMetadata({ params }: Props) {
+  const { book, ...rest } = await params;
+  return isBookSlug(book)
+    ? generateBookMetadata({ ...rest, slug: book })
+    : generateNoteMetadata({ ...rest, slug: "", notePath: book });
+}
+
+export default async function Page({ params, searchParams }: Props) {
+  const { book, ...rest } = await params;
+  return isBookSlug(book) ? (
+    <BookView {...rest} slug={book} searchParams={await searchParams} />
+  ) : (
+    <NoteView {...rest} slug="" notePath={book} />
+  );
+}
@@ -0,0 +1,164 @@
+import { getUserByHandle } from "@/actions/account";
+import { getBook, getBookRedirect, listAllNotes } from "@/actions/note";
+import { getBookPath } from "@/domain/note/models/book";
+import { SyncStatusCode } from "@/domain/note/models/sync-status";
+import { resolveBookPath } from "@/domain/note/services/book-scope";
+import { mdToHtml } from "@/lib/markdown";
+import { type RawSearchParams, SearchParams } from "@/lib/router";
+import { format } from "date-fns";
+import { notFound, permanentRedirect } from "next/navigation";
+
+import { ForOwner } from "@/components/domain/account/ForOwner";
+import {
+  UserBanner,
+  UserBannerSkeleton,
+} from "@/components/domain/account/UserBanner";
+import {
+  UserInfo,
+  UserInfoSkeleton,
+} from "@/components/domain/account/UserInfo";
+import { Article } from "@/components/domain/note/Article";
+import { BookMenu } from "@/components/domain/note/BookMenu";
+import { CopyCode } from "@/components/domain/note/CopyCode";
+import { Notes, NotesSkeleton } from "@/components/domain/note/Notes";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import Link from "next/link";
+import { Suspense } from "react";
+
+type Params = {
+  handle: string;
+  owner: string;
+  repo: string;
+  slug: string;
+};
+
+export async function generateBookMetadata({
+  handle,
+  owner,
+  repo,
+  slug,
+}: Params) {
+  const book = await getBook(owner, repo, slug);
+  const user = await getUserByHandle(handle);
+
+  const bookName = book?.details.name || `${owner}/${repo}`;
+  const userName = user?.profile.displayName || handle;
+  const title = `${bookName} | ${userName}`;
+  const description = book?.details.description || bookName;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+type Props = Params & {
+  searchParams: RawSearchParams;
+};
+
+export async function BookView({
+  handle,
+  owner,
+  repo,
+  slug,
+  searchParams,
+}: Props) {
+  const sp = SearchParams.fromRaw(searchParams);
+  const page = sp.getOne("page") || "1";
+  const view = sp.getOne("view") === "tree" ? "tree" : "list";
+  const book = await getBook(owner, repo, slug);
+
+  if (!book) {
+    const movedBook = await getBookRedirect(owner, repo);
+    if (movedBook) {
+      permanentRedirect(getBookPath(handle, { ...movedBook, slug }));
+    }
+    notFound();
+  }
+
+  const basePath = getBookPath(handle, book);
+  const notes = await listAllNotes(book.id);
+  const description = await mdToHtml(book.details.description, {
+    handle,
+    owner,
+    repo,
+    slug,
+    path: resolveBookPath(book, "README.md"),
+    notes,
+  });
+
+  return (
+    <main>
+      <Suspense fallback={<UserBannerSkeleton />}>
+        <UserBanner userId={book.userId} />
+      </Suspense>
+
+      <div className="content py-(--spacing-layout-lg)">
+        <h1 className="text-3xl md:text-4xl font-bold">{book.details.name}</h1>
+        <Suspense fallback={<Skeleton className="w-32 h-8 mt-2" />}>
+          <ForOwner userId={book.userId} bookId={book.id}>
+            <div className="flex items-center gap-4 mt-2">
+              <dl className="flex items-center gap-2 text-muted-foreground">
+                <dt>Synced at</dt>
+                <dd className="flex items-center gap-2">
+                  {book.syncStatus.lastSyncedAt &&
+                    format(book.syncStatus.lastSyncedAt, "yyyy-MM-dd HH:mm")}
+                  {!book.syncStatus.lastSyncedAt && "-"}
+                  {book.syncStatus.status === SyncStatusCode.ERROR && (
+                    <Badge variant="destructive">Error</Badge>
+                  )}
+                  {book.syncStatus.status === SyncStatusCode.SYNCING && (
+                    <Badge variant="secondary">Syncing</Badge>
+                  )}
+                </dd>
+              </dl>
+
+              <BookMenu book={book} redirectPath={`/${handle}`} />
+            </div>
+          </ForOwner>
+        </Suspense>
+
+        <section className="mt-6">
+          <Suspense fallback={<UserInfoSkeleton />}>
+            <UserInfo userId={book.userId} />
+          </Suspense>
+        </section>
+
+        <section className="py-(--spacing-layout-md)">
+          <Article text={description} />
+          <CopyCode />
+        </section>
+
+        <section className="pt-(--spacing-layout-md) border-t">
+          <div className="flex items-center gap-2 mb-(--spacing-layout-sm)">
+            <Button asChild variant={view === "list" ? "outline" : "ghost"}>
+              <Link href={basePath}>Latest</Link>
+            </Button>
+            <Button asChild variant={view === "tree" ? "outline" : "ghost"}>
+              <Link href={`${basePath}?view=tree`}>Contents</Link>
+            </Button>
+          </div>
+          <Suspense fallback={<NotesSkeleton items={5} />}>
+            <Notes
+              bookId={book.id}
+              basePath={basePath}
+              page={Number.parseInt(page, 10)}
+              view={view}
+            />
+          </Suspense>
+        </section>
+      </div>
+    </main>
+  );
+}
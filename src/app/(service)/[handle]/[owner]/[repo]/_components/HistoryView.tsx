@@ -0,0 +1,178 @@
+import {
+  diffNoteVersions,
+  getBook,
+  getNote,
+  listNoteCommits,
+} from "@/actions/note";
+import { getBookPath } from "@/domain/note/models/book";
+import { type RawSearchParams, SearchParams } from "@/lib/router";
+import { format } from "date-fns";
+import { notFound } from "next/navigation";
+
+import { NoteDiff } from "@/components/domain/note/NoteDiff";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft } from "lucide-react";
+import Link from "next/link";
+
+type Params = {
+  handle: string;
+  owner: string;
+  repo: string;
+  slug: string;
+  notePath: string;
+};
+
+export async function generateHistoryMetadata({
+  handle,
+  owner,
+  repo,
+  slug,
+  notePath,
+}: Params) {
+  const note = await getNote(
+    handle,
+    owner,
+    repo,
+    slug,
+    decodeURIComponent(notePath),
+  );
+  const book = await getBook(owner, repo, slug);
+
+  const bookName = book?.details.name || `${owner}/${repo}`;
+  const title = `History of ${note?.title || notePath} | ${bookName}`;
+
+  return {
+    title,
+    robots: {
+      index: false,
+    },
+  };
+}
+
+type Props = Params & {
+  searchParams: RawSearchParams;
+};
+
+const shortSha = (sha: string) => sha.slice(0, 7);
+
+export async function HistoryView({
+  handle,
+  owner,
+  repo,
+  slug,
+  notePath,
+  searchParams,
+}: Props) {
+  const book = await getBook(owner, repo, slug);
+  const note = await getNote(
+    handle,
+    owner,
+    repo,
+    slug,
+    decodeURIComponent(notePath),
+  );
+
+  if (!book || !note || note.bookId !== book.id) {
+    notFound();
+  }
+
+  const notePagePath = `${getBookPath(handle, book)}/${encodeURIComponent(note.path)}`;
+  const commits = await listNoteCommits(handle, owner, repo, slug, note.path);
+
+  // 未指定の場合は最新のコミットとその直前のコミットを比較する
+  const sp = SearchParams.fromRaw(searchParams);
+  const head = sp.getOne("head") || commits[0]?.sha;
+  const headIndex = commits.findIndex(({ sha }) => sha === head);
+  const base =
+    sp.getOne("base") ||
+    (headIndex >= 0 ? commits[headIndex + 1]?.sha : undefined) ||
+    null;
+  const diff = head
+    ? await diffNoteVersions(handle, owner, repo, slug, note.path, base, head)
+    : null;
+
+  const compareHref = (base: string | null, head: string | undefined) =>
+    `?${new URLSearchParams({
+      ...(base && { base }),
+      ...(head && { head }),
+    })}`;
+
+  return (
+    <main>
+      <div className="content py-(--spacing-layout-lg)">
+        <Button asChild variant="ghost" className="!pl-0 cursor-pointer">
+          <Link href={notePagePath}>
+            <ChevronLeft />
+            {note.title}
+          </Link>
+        </Button>
+
+        <h1 className="mt-3 text-2xl md:text-4xl font-bold">History</h1>
+
+        {commits.length === 0 && (
+          <p className="mt-4 text-muted-foreground">
+            Failed to load the commits of this note.
+          </p>
+        )}
+
+        {commits.length > 0 && (
+          <section className="mt-(--spacing-layout-sm)">
+            <ul className="space-y-2 text-sm">
+              {commits.map((commit) => (
+                <li
+                  key={commit.sha}
+                  className="flex items-center gap-2 min-w-0"
+                >
+                  <Button
+                    asChild
+                    size="sm"
+                    variant={commit.sha === base ? "default" : "outline"}
+                  >
+                    <Link href={compareHref(commit.sha, head)}>Base</Link>
+                  </Button>
+                  <Button
+                    asChild
+                    size="sm"
+                    variant={commit.sha === head ? "default" : "outline"}
+                  >
+                    <Link href={compareHref(base, commit.sha)}>Head</Link>
+                  </Button>
+                  <span className="text-muted-foreground shrink-0">
+                    {format(commit.committedAt, "yyyy-MM-dd HH:mm")}
+                  </span>
+                  <a
+                    href={commit.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate underline underline-offset-4 hover:text-muted-foreground"
+                  >
+                    {commit.message.split("\n")[0] || shortSha(commit.sha)}
+                  </a>
+                  <span className="text-muted-foreground shrink-0">
+                    {commit.authorLogin || commit.authorName}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {head && (
+          <section className="mt-(--spacing-layout-md) pt-(--spacing-layout-sm) border-t">
+            <h2 className="mb-2 text-lg font-bold">
+              {base ? shortSha(base) : "Empty"} → {shortSha(head)}
+            </h2>
+            {diff ? (
+              <NoteDiff lines={diff} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Failed to load the changes. Versions that were not public cannot
+                be compared.
+              </p>
+            )}
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,35 +1,63 @@
 import { getUserByHandle } from "@/actions/account";
 import { getBook, getNote } from "@/actions/note";
-import { separator } from "@/domain/note/models/note";
+import { NoteScope, toFilePath } from "@/domain/note/models/note";
 import { ImageResponse } from "next/og";
 
-export const runtime = "nodejs";
-
-export const alt = "OpenGraphImage";
-export const size = {
+const size = {
   width: 1200,
   height: 630,
 };
-export const contentType = "image/png";
 
-type Props = {
-  params: Promise<{
-    handle: string;
-    owner: string;
-    repo: string;
-    notePath: string;
-  }>;
+type Params = {
+  handle: string;
+  owner: string;
+  repo: string;
+  slug: string;
+  notePath: string;
 };
 
-export default async function Image({ params }: Props) {
-  const { handle, owner, repo, notePath } = await params;
-  const note = await getNote(decodeURIComponent(notePath));
-  const book = await getBook(owner, repo);
+export async function createNoteImage({
+  handle,
+  owner,
+  repo,
+  slug,
+  notePath,
+}: Params) {
+  const found = await getNote(
+    handle,
+    owner,
+    repo,
+    slug,
+    decodeURIComponent(notePath),
+  );
+  // OGP画像はキャッシュされて誰でも見られるため、限定公開のノートの内容を含めない
+  const note = found?.scope === NoteScope.LIMITED ? null : found;
+  const book = await getBook(owner, repo, slug);
   const user = await getUserByHandle(handle);
 
   const bookName = book?.details.name || `${owner}/${repo}`;
-  const noteTitle = note?.title || notePath.replace(separator, "/");
+  const noteTitle = note?.title || toFilePath(decodeURIComponent(notePath));
   const userName = user?.profile.displayName || handle;
+  const coverImage = note?.coverImage?.match(/^https?:\/\//)
+    ? note.coverImage
+    : null;
+
+  if (coverImage) {
+    return new ImageResponse(
+      <img
+        src={coverImage}
+        alt={noteTitle}
+        style={{
+          width: "100%",
+          height: "100%",
+          objectFit: "cover",
+        }}
+      />,
+      {
+        ...size,
+      },
+    );
+  }
 
   return new ImageResponse(
     <div
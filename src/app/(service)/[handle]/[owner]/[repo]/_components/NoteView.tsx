@@ -0,0 +1,242 @@
+import {
+  getBook,
+  getBookRedirect,
+  getNote,
+  getNoteRedirect,
+  listAllNotes,
+} from "@/actions/note";
+import { getBookPath } from "@/domain/note/models/book";
+import { NoteScope, toFilePath } from "@/domain/note/models/note";
+import { extractHeadings, mdToHtml, resolveAssetUrl } from "@/lib/markdown";
+import { format } from "date-fns";
+import { notFound, permanentRedirect } from "next/navigation";
+
+import { ForOwner } from "@/components/domain/account/ForOwner";
+import {
+  UserInfo,
+  UserInfoSkeleton,
+} from "@/components/domain/account/UserInfo";
+import { AdjacentNotes } from "@/components/domain/note/AdjacentNotes";
+import { Article } from "@/components/domain/note/Article";
+import { BackToBook } from "@/components/domain/note/BackToBook";
+import { Backlinks } from "@/components/domain/note/Backlinks";
+import { CopyCode } from "@/components/domain/note/CopyCode";
+import { DeleteNote } from "@/components/domain/note/DeleteNote";
+import {
+  LastEditedBy,
+  NoteRevisions,
+} from "@/components/domain/note/NoteRevisions";
+import { OGCard } from "@/components/domain/note/OGCard";
+import { TableOfContents } from "@/components/domain/note/TableOfContents";
+import {
+  Engagement,
+  EngagementSkeleton,
+} from "@/components/domain/post/Engagement";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, History } from "lucide-react";
+import Link from "next/link";
+import { Suspense } from "react";
+
+type Params = {
+  handle: string;
+  owner: string;
+  repo: string;
+  slug: string;
+  notePath: string;
+};
+
+export async function generateNoteMetadata({
+  handle,
+  owner,
+  repo,
+  slug,
+  notePath,
+}: Params) {
+  const note = await getNote(
+    handle,
+    owner,
+    repo,
+    slug,
+    decodeURIComponent(notePath),
+  );
+  const book = await getBook(owner, repo, slug);
+
+  const bookName = book?.details.name || `${owner}/${repo}`;
+  const noteTitle = note?.title || toFilePath(decodeURIComponent(notePath));
+  const title = `${noteTitle} | ${bookName}`;
+  const description =
+    note?.description ||
+    note?.body.slice(0, 160).replace(/\r?\n/g, "").replaceAll("#", "") ||
+    noteTitle;
+
+  return {
+    title,
+    description,
+    // 公開以外のノートは検索エンジンに登録させない
+    robots:
+      note && note.scope !== NoteScope.PUBLIC ? { index: false } : undefined,
+    openGraph: {
+      type: "article",
+      title,
+      description,
+      publishedTime: (note?.publishedAt || note?.createdAt)?.toISOString(),
+      modifiedTime: (note?.modifiedAt || note?.updatedAt)?.toISOString(),
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+export async function NoteView({
+  handle,
+  owner,
+  repo,
+  slug,
+  notePath,
+}: Params) {
+  const book = await getBook(owner, repo, slug);
+
+  if (!book) {
+    const movedBook = await getBookRedirect(owner, repo);
+    if (movedBook) {
+      permanentRedirect(
+        `${getBookPath(handle, { ...movedBook, slug })}/${notePath}`,
+      );
+    }
+    notFound();
+  }
+
+  const basePath = getBookPath(handle, book);
+
+  const note = await getNote(
+    handle,
+    owner,
+    repo,
+    slug,
+    decodeURIComponent(notePath),
+  );
+
+  if (!note) {
+    const redirect = await getNoteRedirect(
+      book.id,
+      decodeURIComponent(notePath),
+    );
+    if (redirect) {
+      permanentRedirect(`${basePath}/${encodeURIComponent(redirect.toPath)}`);
+    }
+    notFound();
+  }
+
+  const notes = await listAllNotes(note.bookId);
+  const location = {
+    handle,
+    owner,
+    repo,
+    slug,
+    path: toFilePath(note.path),
+    notes,
+  };
+  const body = await mdToHtml(note.body, location);
+  const headings = note.toc ? extractHeadings(body) : [];
+  const createdAt = format(
+    note.publishedAt || note.createdAt,
+    "yyyy-MM-dd HH:mm",
+  );
+  const updatedAt = format(
+    note.modifiedAt || note.updatedAt,
+    "yyyy-MM-dd HH:mm",
+  );
+
+  return (
+    <main>
+      <div className="content py-(--spacing-layout-lg)">
+        <Suspense
+          fallback={
+            <Button asChild variant="ghost" className="!pl-0 cursor-pointer">
+              <Link href={basePath}>
+                <ChevronLeft />
+              </Link>
+            </Button>
+          }
+        >
+          <BackToBook handle={handle} owner={owner} repo={repo} slug={slug} />
+        </Suspense>
+
+        <h1 className="mt-3 text-2xl md:text-4xl font-bold">{note.title}</h1>
+
+        {note.createdAt && (
+          <p className="text-sm text-muted-foreground">
+            {createdAt}
+            {createdAt !== updatedAt ? ` / ${updatedAt}` : ""}
+          </p>
+        )}
+
+        <Suspense>
+          <LastEditedBy noteId={note.id} />
+        </Suspense>
+
+        <div className="flex items-center gap-4 mt-4">
+          <Suspense fallback={<EngagementSkeleton />}>
+            <Engagement note={note} fullPath={`${basePath}/${notePath}`} />
+          </Suspense>
+
+          <Suspense>
+            <ForOwner userId={note.userId} bookId={note.bookId}>
+              <DeleteNote note={note} redirectPath={basePath} />
+            </ForOwner>
+          </Suspense>
+
+          <Button asChild variant="ghost" size="sm">
+            <Link href={`${basePath}/${encodeURIComponent(note.path)}/history`}>
+              <History />
+              History
+            </Link>
+          </Button>
+        </div>
+
+        <section className="mt-(--spacing-layout-sm) pt-(--spacing-layout-sm) border-t">
+          <Suspense fallback={<UserInfoSkeleton />}>
+            <UserInfo userId={note.userId} />
+          </Suspense>
+        </section>
+
+        <article className="relative py-(--spacing-layout-md)">
+          {headings.length > 0 && (
+            <aside className="hidden xl:block absolute top-0 left-full h-full w-56 ml-12 py-(--spacing-layout-md)">
+              <TableOfContents headings={headings} />
+            </aside>
+          )}
+          {note.coverImage && (
+            <img
+              src={resolveAssetUrl(note.coverImage, location)}
+              alt={note.title}
+              className="w-full mb-(--spacing-layout-sm) rounded-md"
+            />
+          )}
+          <Article text={body} />
+          <CopyCode />
+          <OGCard />
+        </article>
+
+        <Suspense>
+          <AdjacentNotes
+            bookId={note.bookId}
+            notePath={note.path}
+            basePath={basePath}
+          />
+        </Suspense>
+
+        <Suspense>
+          <Backlinks noteId={note.id} basePath={basePath} />
+        </Suspense>
+
+        <Suspense>
+          <NoteRevisions noteId={note.id} />
+        </Suspense>
+      </div>
+    </main>
+  );
+}
@@ -17,11 +17,14 @@ export const generateStaticParams = async ({
     return [];
   }
   const books = await listBooks(user.id);
-  return books.map((book) => ({
-    handle,
-    owner: book.owner,
-    repo: book.repo,
-  }));
+  // 同じリポジトリの複数のブックは1つのパスにまとめる
+  const repositories = new Set(
+    books.map((book) => `${book.owner}/${book.repo}`),
+  );
+  return [...repositories].map((repository) => {
+    const [owner, repo] = repository.split("/");
+    return { handle, owner, repo };
+  });
 };
 
 type Props = {
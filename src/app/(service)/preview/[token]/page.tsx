@@ -0,0 +1,105 @@
+import { getUser } from "@/actions/account";
+import { getNotePreview, listAllNotes } from "@/actions/note";
+import { getBookPath } from "@/domain/note/models/book";
+import { extractHeadings, mdToHtml, resolveAssetUrl } from "@/lib/markdown";
+import { format } from "date-fns";
+import { notFound } from "next/navigation";
+
+import { Article } from "@/components/domain/note/Article";
+import { CopyCode } from "@/components/domain/note/CopyCode";
+import { TableOfContents } from "@/components/domain/note/TableOfContents";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft } from "lucide-react";
+import Link from "next/link";
+
+type Props = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+export async function generateMetadata({ params }: Props) {
+  const { token } = await params;
+  const result = await getNotePreview(decodeURIComponent(token));
+
+  return {
+    title: `Preview: ${result?.markdown.title || "Note"}`,
+    // プレビューURLは検索エンジンに登録させない
+    robots: {
+      index: false,
+      follow: false,
+    },
+  };
+}
+
+export default async function Page({ params }: Props) {
+  const { token } = await params;
+  const result = await getNotePreview(decodeURIComponent(token));
+
+  if (!result) {
+    notFound();
+  }
+
+  const { preview, book, markdown } = result;
+  const user = await getUser(book.userId);
+
+  if (!user) {
+    notFound();
+  }
+
+  const basePath = getBookPath(user.handle, book);
+  const notes = await listAllNotes(book.id);
+  const location = {
+    handle: user.handle,
+    owner: book.owner,
+    repo: book.repo,
+    slug: book.slug,
+    path: preview.path,
+    notes,
+    previewToken: decodeURIComponent(token),
+  };
+  const title =
+    markdown.title || preview.path.split("/").slice(-1)[0].replace(/\.md$/, "");
+  const body = await mdToHtml(markdown.body, location);
+  const headings = markdown.toc ? extractHeadings(body) : [];
+
+  return (
+    <main>
+      <div className="content py-(--spacing-layout-lg)">
+        <Button asChild variant="ghost" className="!pl-0 cursor-pointer">
+          <Link href={basePath}>
+            <ChevronLeft />
+            {book.details.name}
+          </Link>
+        </Button>
+
+        <h1 className="mt-3 text-2xl md:text-4xl font-bold">{title}</h1>
+
+        <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
+          <Badge variant="secondary">Preview</Badge>
+          <span>
+            Expires at {format(preview.expiresAt, "yyyy-MM-dd HH:mm")}
+          </span>
+        </div>
+
+        <article className="relative py-(--spacing-layout-md)">
+          {headings.length > 0 && (
+            <aside className="hidden xl:block absolute top-0 left-full h-full w-56 ml-12 py-(--spacing-layout-md)">
+              <TableOfContents headings={headings} />
+            </aside>
+          )}
+          {markdown.coverImage && (
+            <img
+              src={resolveAssetUrl(markdown.coverImage, location)}
+              alt={title}
+              className="w-full mb-(--spacing-layout-sm) rounded-md"
+            />
+          )}
+          <Article text={body} />
+          <CopyCode />
+        </article>
+      </div>
+    </main>
+  );
+}
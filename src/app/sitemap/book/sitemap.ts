@@ -2,6 +2,7 @@ export const revalidate = 3600;
 export const dynamicParams = true;
 
 import { countBooks, listBooksForSitemap } from "@/actions/note";
+import { getBookPath } from "@/domain/note/models/book";
 import type { MetadataRoute } from "next";
 
 const limit = Number.parseInt(process.env.NEXT_PUBLIC_SITEMAP_LIMIT, 10);
@@ -24,7 +25,7 @@ export default async function sitemap({
   return books.flatMap((book) => {
     return [
       {
-        url: `${process.env.NEXT_PUBLIC_URL}/${book.user.handle}/${book.owner}/${book.repo}`,
+        url: `${process.env.NEXT_PUBLIC_URL}${getBookPath(book.user.handle, book)}`,
         lastModified: book.updatedAt,
       },
     ];
@@ -2,6 +2,7 @@ export const revalidate = 3600;
 export const dynamicParams = true;
 
 import { countNotes, listNotesForSitemap } from "@/actions/note";
+import { getBookPath } from "@/domain/note/models/book";
 import type { MetadataRoute } from "next";
 
 const limit = Number.parseInt(process.env.NEXT_PUBLIC_SITEMAP_LIMIT, 10);
@@ -24,8 +25,8 @@ export default async function sitemap({
   return notes.flatMap((note) => {
     return [
       {
-        url: `${process.env.NEXT_PUBLIC_URL}/${note.user.handle}/${note.book.owner}/${note.book.repo}/${note.path}`,
-        lastModified: note.updatedAt,
+        url: `${process.env.NEXT_PUBLIC_URL}${getBookPath(note.user.handle, note.book)}/${note.path}`,
+        lastModified: note.modifiedAt || note.updatedAt,
       },
     ];
   });
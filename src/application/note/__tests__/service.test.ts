@@ -0,0 +1,333 @@
+import type { GitHubConnectionRepository } from "@/domain/account/repositories/github-connection-repository";
+import type { UserRepository } from "@/domain/account/repositories/user-repository";
+import type { BlueskyGraphProvider } from "@/domain/note/adapters/bluesky-graph-provider";
+import type { GitHubContentProvider } from "@/domain/note/adapters/github-content-provider";
+import type { PreviewTokenProvider } from "@/domain/note/adapters/preview-token-provider";
+import { GitHubFileChangeStatus } from "@/domain/note/dtos";
+import type { Book } from "@/domain/note/models/book";
+import { type Note, NoteScope } from "@/domain/note/models/note";
+import { SyncStatusCode } from "@/domain/note/models/sync-status";
+import type { BookFileRepository } from "@/domain/note/repositories/book-file-repository";
+import type { BookMemberRepository } from "@/domain/note/repositories/book-member-repository";
+import type { BookRedirectRepository } from "@/domain/note/repositories/book-redirect-repository";
+import type { BookRepository } from "@/domain/note/repositories/book-repository";
+import type { NoteRedirectRepository } from "@/domain/note/repositories/note-redirect-repository";
+import type { NoteRepository } from "@/domain/note/repositories/note-repository";
+import type { NoteRevisionRepository } from "@/domain/note/repositories/note-revision-repository";
+import type { NoteVersionRepository } from "@/domain/note/repositories/note-version-repository";
+import type { SyncJobRepository } from "@/domain/note/repositories/sync-job-repository";
+import type { TagRepository } from "@/domain/note/repositories/tag-repository";
+import type { WebhookDeliveryRepository } from "@/domain/note/repositories/webhook-delivery-repository";
+import { DiffLineType } from "@/domain/note/services/diff-lines";
+import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
+import { errAsync, okAsync } from "neverthrow";
+import { expect, test } from "vitest";
+import { NoteService } from "../service";
+
+const book: Book = {
+  id: "00000000-0000-4000-8000-000000000001",
+  userId: "00000000-0000-4000-8000-000000000002",
+  owner: "owner",
+  repo: "repo",
+  slug: "",
+  webhookId: 1,
+  branch: null,
+  rootPath: null,
+  ignore: [],
+  details: { name: "Book", description: "", summary: null },
+  syncStatus: {
+    lastSyncedAt: null,
+    status: SyncStatusCode.SYNCED,
+    commitSha: null,
+    treeSha: null,
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+type NoteServiceDeps = ConstructorParameters<typeof NoteService>[0]["deps"];
+
+/**
+ * 指定したメソッドのみ実装したモックを作成する
+ * 実装していないメソッドを呼び出すと例外を投げる
+ */
+function mockOf<T extends object>(implementation: Partial<T>) {
+  return new Proxy(implementation, {
+    get(target, property) {
+      return property in target
+        ? Reflect.get(target, property)
+        : () => {
+            throw new Error(`${String(property)} is not mocked`);
+          };
+    },
+  }) as T;
+}
+
+/**
+ * 指定した依存以外をモックにしたノートサービスを作成する
+ */
+function createNoteService(deps: Partial<NoteServiceDeps>) {
+  return new NoteService({
+    deps: {
+      blueskyGraphProvider: mockOf<BlueskyGraphProvider>({}),
+      githubConnectionRepository: mockOf<GitHubConnectionRepository>({}),
+      githubContentProvider: mockOf<GitHubContentProvider>({}),
+      previewTokenProvider: mockOf<PreviewTokenProvider>({}),
+      bookRepository: mockOf<BookRepository>({}),
+      bookFileRepository: mockOf<BookFileRepository>({}),
+      bookMemberRepository: mockOf<BookMemberRepository>({}),
+      bookRedirectRepository: mockOf<BookRedirectRepository>({}),
+      noteRepository: mockOf<NoteRepository>({}),
+      noteRedirectRepository: mockOf<NoteRedirectRepository>({}),
+      noteRevisionRepository: mockOf<NoteRevisionRepository>({}),
+      noteVersionRepository: mockOf<NoteVersionRepository>({}),
+      syncJobRepository: mockOf<SyncJobRepository>({}),
+      tagRepository: mockOf<TagRepository>({}),
+      webhookDeliveryRepository: mockOf<WebhookDeliveryRepository>({}),
+      userRepository: mockOf<UserRepository>({}),
+      ...deps,
+    },
+  });
+}
+
+const note: Note = {
+  id: "00000000-0000-4000-8000-000000000003",
+  userId: book.userId,
+  bookId: book.id,
+  path: "note.md",
+  title: "Note",
+  body: "",
+  scope: NoteScope.PUBLIC,
+  audience: [],
+  description: null,
+  coverImage: null,
+  publishedAt: null,
+  modifiedAt: null,
+  sortOrder: null,
+  toc: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const noteLocation = {
+  handle: "alice.example.com",
+  owner: book.owner,
+  repo: book.repo,
+  slug: book.slug,
+  notePath: note.path,
+};
+
+const baseSha = "a".repeat(40);
+const headSha = "b".repeat(40);
+
+/**
+ * 指定したコミット時点の内容を持つノートの履歴を取得するノートサービスを作成する
+ * GitHubから取得したコミットと保存したコミットを記録する
+ */
+function createHistoryService(
+  versions: Record<string, string>,
+  scope: NoteScope = NoteScope.PUBLIC,
+) {
+  const fetched: string[] = [];
+  const saved: string[] = [];
+  const service = createNoteService({
+    bookRepository: mockOf<BookRepository>({
+      findById: () => okAsync(book),
+    }),
+    noteRepository: mockOf<NoteRepository>({
+      findByLocation: () => okAsync({ ...note, scope }),
+    }),
+    noteVersionRepository: mockOf<NoteVersionRepository>({
+      findByCommit: () =>
+        errAsync(
+          new RepositoryError(
+            RepositoryErrorCode.NOT_FOUND,
+            "Note version not found",
+          ),
+        ),
+      save: ({ commitSha }) => {
+        saved.push(commitSha);
+        return okAsync(undefined);
+      },
+    }),
+    githubContentProvider: mockOf<GitHubContentProvider>({
+      getInstallationId: () => okAsync(1),
+      listCommits: () =>
+        okAsync(
+          Object.keys(versions).map((sha) => ({
+            sha,
+            message: "Update note",
+            authorName: null,
+            authorLogin: null,
+            committedAt: new Date(),
+            url: `https://github.com/owner/repo/commit/${sha}`,
+          })),
+        ),
+      getContentByInstallation: (
+        _installationId,
+        _owner,
+        _repo,
+        _path,
+        ref,
+      ) => {
+        fetched.push(ref || "");
+        return okAsync(versions[ref || ""] || "");
+      },
+    }),
+  });
+  return { service, fetched, saved };
+}
+
+test("公開範囲の異なるノートを追加するPushを同期すると公開のノートのみが追加されたノートとして返ること", async () => {
+  const files: Record<string, string> = {
+    "public.md": "---\naccess: public\n---\n# Public",
+    "unlisted.md": "---\naccess: unlisted\n---\n# Unlisted",
+    "limited.md": "---\naccess: limited\naudience: alice\n---\n# Limited",
+    "private.md": "---\naccess: private\n---\n# Private",
+  };
+  const service = createNoteService({
+    bookRepository: mockOf<BookRepository>({
+      findById: () => okAsync(book),
+      update: () => okAsync(book),
+    }),
+    bookFileRepository: mockOf<BookFileRepository>({
+      deleteByPath: () => okAsync(undefined),
+      save: () => okAsync(undefined),
+    }),
+    githubContentProvider: mockOf<GitHubContentProvider>({
+      compareCommits: () =>
+        okAsync(
+          Object.keys(files).map((path) => ({
+            status: GitHubFileChangeStatus.ADDED,
+            path,
+            previousPath: null,
+            sha: path,
+          })),
+        ),
+      getContentByInstallation: (_installationId, _owner, _repo, path) =>
+        okAsync(path === "README.md" ? "# Book" : files[path]),
+    }),
+    noteRepository: mockOf<NoteRepository>({
+      createOrUpdate: (note) =>
+        okAsync({
+          ...note,
+          id: crypto.randomUUID(),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      deleteByPath: () => okAsync(undefined),
+    }),
+    noteRevisionRepository: mockOf<NoteRevisionRepository>({
+      createMany: () => okAsync(undefined),
+    }),
+    tagRepository: mockOf<TagRepository>({
+      deleteUnused: () => okAsync(undefined),
+    }),
+  });
+
+  const result = await service.pushNotes({
+    bookId: book.id,
+    owner: book.owner,
+    repo: book.repo,
+    installationId: 1,
+    before: "before",
+    after: "after",
+    commits: [],
+  });
+
+  expect(result.isOk()).toBe(true);
+  result.map(({ synced, added }) => {
+    expect(synced).toBe(3);
+    expect(added.map((note) => note.path)).toEqual(["public.md"]);
+  });
+});
+
+test("ノートのコミット一覧にある完全なSHAを指定して差分を取得すると差分が返り内容が保存されること", async () => {
+  const { service, saved } = createHistoryService({
+    [headSha]: "---\naccess: public\n---\n# Note\n\nafter",
+    [baseSha]: "---\naccess: public\n---\n# Note\n\nbefore",
+  });
+
+  const result = await service.diffNoteVersions({
+    ...noteLocation,
+    base: baseSha,
+    head: headSha,
+  });
+
+  expect(result.isOk()).toBe(true);
+  result.map((lines) => {
+    expect(
+      lines.filter(({ type }) => type !== DiffLineType.UNCHANGED),
+    ).toHaveLength(2);
+  });
+  expect(saved.sort()).toEqual([baseSha, headSha]);
+});
+
+test.each(["main", "HEAD~1", "bbbbbbb", "c".repeat(40), headSha.toUpperCase()])(
+  "ノートのコミット一覧にない参照 %s を指定して差分を取得すると内容を取得せずにエラーになること",
+  async (ref) => {
+    const { service, fetched, saved } = createHistoryService({
+      [headSha]: "---\naccess: public\n---\n# Note",
+    });
+
+    const headResult = await service.diffNoteVersions({
+      ...noteLocation,
+      base: null,
+      head: ref,
+    });
+    const baseResult = await service.diffNoteVersions({
+      ...noteLocation,
+      base: ref,
+      head: headSha,
+    });
+
+    expect(headResult.isErr()).toBe(true);
+    expect(baseResult.isErr()).toBe(true);
+    expect(fetched).toEqual([]);
+    expect(saved).toEqual([]);
+  },
+);
+
+test("限定公開のノートの作成者が限定公開の時点の差分を取得すると差分が返ること", async () => {
+  const limited =
+    "---\naccess: limited\naudience: alice.example.com\n---\n# Note";
+  const { service, saved } = createHistoryService(
+    {
+      [headSha]: `${limited}\n\nafter`,
+      [baseSha]: `${limited}\n\nbefore`,
+    },
+    NoteScope.LIMITED,
+  );
+
+  const result = await service.diffNoteVersions({
+    ...noteLocation,
+    userId: note.userId,
+    base: baseSha,
+    head: headSha,
+  });
+
+  expect(result.isOk()).toBe(true);
+  expect(saved.sort()).toEqual([baseSha, headSha]);
+});
+
+test.each([
+  "---\naccess: limited\naudience: alice.example.com\n---\n# Note",
+  "---\naccess: private\n---\n# Note",
+])(
+  "閲覧できない公開範囲だった時点を指定してサインインしていないユーザーが差分を取得するとエラーになりその内容は保存されないこと",
+  async (content) => {
+    const { service, saved } = createHistoryService({
+      [headSha]: "---\naccess: public\n---\n# Note",
+      [baseSha]: content,
+    });
+
+    const result = await service.diffNoteVersions({
+      ...noteLocation,
+      base: baseSha,
+      head: headSha,
+    });
+
+    expect(result.isErr()).toBe(true);
+    expect(saved).not.toContain(baseSha);
+  },
+);
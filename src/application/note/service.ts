@@ -1,44 +1,147 @@
 import type { GitHubConnectionRepository } from "@/domain/account/repositories/github-connection-repository";
+import type { UserRepository } from "@/domain/account/repositories/user-repository";
+import type { BlueskyGraphProvider } from "@/domain/note/adapters/bluesky-graph-provider";
 import type { GitHubContentProvider } from "@/domain/note/adapters/github-content-provider";
-import type { GitHubCommit } from "@/domain/note/dtos";
-import type { Book } from "@/domain/note/models/book";
-import { type Note, separator } from "@/domain/note/models/note";
+import type { PreviewTokenProvider } from "@/domain/note/adapters/preview-token-provider";
+import {
+  type GitHubFileChange,
+  GitHubFileChangeStatus,
+  type GitHubFileDates,
+  type GitHubPush,
+  maxPreviewExpiresIn,
+} from "@/domain/note/dtos";
+import { type Book, isBookSlug } from "@/domain/note/models/book";
+import { BookMemberRole } from "@/domain/note/models/book-member";
+import {
+  type Note,
+  isNotePath,
+  toFilePath,
+  toNotePath,
+} from "@/domain/note/models/note";
 import { NoteScope } from "@/domain/note/models/note";
+import { type SyncJob, SyncJobStatus } from "@/domain/note/models/sync-job";
 import { SyncStatusCode } from "@/domain/note/models/sync-status";
+import {
+  type WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "@/domain/note/models/webhook-delivery";
+import type { BookFileRepository } from "@/domain/note/repositories/book-file-repository";
+import type { BookMemberRepository } from "@/domain/note/repositories/book-member-repository";
+import type { BookRedirectRepository } from "@/domain/note/repositories/book-redirect-repository";
 import type { BookRepository } from "@/domain/note/repositories/book-repository";
+import type { NoteRedirectRepository } from "@/domain/note/repositories/note-redirect-repository";
 import type { NoteRepository } from "@/domain/note/repositories/note-repository";
+import type { NoteRevisionRepository } from "@/domain/note/repositories/note-revision-repository";
+import type { NoteVersionRepository } from "@/domain/note/repositories/note-version-repository";
+import type { SyncJobRepository } from "@/domain/note/repositories/sync-job-repository";
 import type { TagRepository } from "@/domain/note/repositories/tag-repository";
+import type { WebhookDeliveryRepository } from "@/domain/note/repositories/webhook-delivery-repository";
+import { getAssetContentType } from "@/domain/note/services/asset-content-type";
+import { extractAssetPaths } from "@/domain/note/services/asset-reference";
+import {
+  isInBookScope,
+  normalizeRootPath,
+  resolveBookPath,
+  scopeFileChanges,
+} from "@/domain/note/services/book-scope";
+import {
+  buildNoteTree,
+  findAdjacentNotes,
+} from "@/domain/note/services/build-note-tree";
+import { changesFromCommits } from "@/domain/note/services/changes-from-commits";
+import { createSnippet } from "@/domain/note/services/create-snippet";
+import { diffFiles } from "@/domain/note/services/diff-files";
+import { diffLines } from "@/domain/note/services/diff-lines";
+import { fileDatesFromCommits } from "@/domain/note/services/file-dates-from-commits";
+import {
+  NoteAudience,
+  isListedInAudience,
+} from "@/domain/note/services/note-audience";
+import {
+  bookConfigPath,
+  parseBookConfig,
+} from "@/domain/note/services/parse-book-config";
 import { parseMarkdown } from "@/domain/note/services/parse-markdown";
+import {
+  getSearchKeywords,
+  parseSearchQuery,
+} from "@/domain/note/services/parse-search-query";
+import { parseSummary } from "@/domain/note/services/parse-summary";
+import { revisionsFromCommits } from "@/domain/note/services/revisions-from-commits";
+import {
+  getSyncJobRetryAt,
+  maxSyncJobAttempts,
+  syncJobLockTimeout,
+} from "@/domain/note/services/sync-job-backoff";
+import { wikiLinkKeys } from "@/domain/note/services/wiki-link";
 import {
   ApplicationServiceError,
   ApplicationServiceErrorCode,
+  type ExternalServiceError,
+  RepositoryError,
+  RepositoryErrorCode,
+  ValidationError,
+  ValidationErrorCode,
 } from "@/domain/types/error";
 import type { PaginationParams } from "@/domain/types/pagination";
 import { logger } from "@/lib/logger";
-import { ResultAsync, okAsync } from "neverthrow";
+import { ResultAsync, err, errAsync, ok, okAsync } from "neverthrow";
 import type { AddBookInput, NoteUsecase, SearchNotesInput } from "./usecase";
 
 export class NoteService implements NoteUsecase {
+  private readonly blueskyGraphProvider: BlueskyGraphProvider;
   private readonly githubContentProvider: GitHubContentProvider;
+  private readonly previewTokenProvider: PreviewTokenProvider;
   private readonly githubConnectionRepository: GitHubConnectionRepository;
   private readonly bookRepository: BookRepository;
+  private readonly bookFileRepository: BookFileRepository;
+  private readonly bookMemberRepository: BookMemberRepository;
+  private readonly bookRedirectRepository: BookRedirectRepository;
   private readonly noteRepository: NoteRepository;
+  private readonly noteRedirectRepository: NoteRedirectRepository;
+  private readonly noteRevisionRepository: NoteRevisionRepository;
+  private readonly noteVersionRepository: NoteVersionRepository;
+  private readonly syncJobRepository: SyncJobRepository;
   private readonly tagRepository: TagRepository;
+  private readonly webhookDeliveryRepository: WebhookDeliveryRepository;
+  private readonly userRepository: UserRepository;
 
   constructor(params: {
     deps: {
+      blueskyGraphProvider: BlueskyGraphProvider;
       githubConnectionRepository: GitHubConnectionRepository;
       githubContentProvider: GitHubContentProvider;
+      previewTokenProvider: PreviewTokenProvider;
       bookRepository: BookRepository;
+      bookFileRepository: BookFileRepository;
+      bookMemberRepository: BookMemberRepository;
+      bookRedirectRepository: BookRedirectRepository;
       noteRepository: NoteRepository;
+      noteRedirectRepository: NoteRedirectRepository;
+      noteRevisionRepository: NoteRevisionRepository;
+      noteVersionRepository: NoteVersionRepository;
+      syncJobRepository: SyncJobRepository;
       tagRepository: TagRepository;
+      webhookDeliveryRepository: WebhookDeliveryRepository;
+      userRepository: UserRepository;
     };
   }) {
+    this.blueskyGraphProvider = params.deps.blueskyGraphProvider;
     this.githubConnectionRepository = params.deps.githubConnectionRepository;
     this.githubContentProvider = params.deps.githubContentProvider;
+    this.previewTokenProvider = params.deps.previewTokenProvider;
     this.bookRepository = params.deps.bookRepository;
+    this.bookFileRepository = params.deps.bookFileRepository;
+    this.bookMemberRepository = params.deps.bookMemberRepository;
+    this.bookRedirectRepository = params.deps.bookRedirectRepository;
     this.noteRepository = params.deps.noteRepository;
+    this.noteRedirectRepository = params.deps.noteRedirectRepository;
+    this.noteRevisionRepository = params.deps.noteRevisionRepository;
+    this.noteVersionRepository = params.deps.noteVersionRepository;
+    this.syncJobRepository = params.deps.syncJobRepository;
     this.tagRepository = params.deps.tagRepository;
+    this.webhookDeliveryRepository = params.deps.webhookDeliveryRepository;
+    this.userRepository = params.deps.userRepository;
   }
 
   public searchRepositories(input: {
@@ -73,23 +176,58 @@ export class NoteService implements NoteUsecase {
   }
 
   public addBook(input: AddBookInput) {
-    return this.githubConnectionRepository
-      .findByUserId(input.userId)
+    const slug = input.slug?.trim() || "";
+    return okAsync(slug)
+      .andThen((slug) =>
+        !slug || isBookSlug(slug)
+          ? ok(slug)
+          : err(
+              new ValidationError(
+                ValidationErrorCode.INVALID_FORMAT,
+                "Book slug must consist of lowercase letters, numbers and hyphens",
+              ),
+            ),
+      )
+      .andThen(() => this.githubConnectionRepository.findByUserId(input.userId))
       .andThen((connection) =>
         this.githubContentProvider
           .getContent(
             connection.accessToken,
             input.owner,
             input.repo,
-            "README.md",
+            bookConfigPath,
+          )
+          .map(parseBookConfig)
+          .orElse(() => okAsync(null))
+          .map((config) => ({
+            connection,
+            // 入力された設定を設定ファイルより優先する
+            scope: {
+              rootPath:
+                normalizeRootPath(input.rootPath) ?? config?.rootPath ?? null,
+              ignore: (input.ignore ?? config?.ignore ?? []).filter((glob) =>
+                glob.trim(),
+              ),
+            },
+          })),
+      )
+      .andThen(({ connection, scope }) =>
+        this.githubContentProvider
+          .getContent(
+            connection.accessToken,
+            input.owner,
+            input.repo,
+            resolveBookPath(scope, "README.md"),
           )
           .map((content) => ({
             accessToken: connection.accessToken,
+            scope,
             content: parseMarkdown(content),
           }))
           .orElse(() =>
             okAsync({
               accessToken: connection.accessToken,
+              scope,
               content: {
                 title: input.repo,
                 body: "",
@@ -97,20 +235,34 @@ export class NoteService implements NoteUsecase {
             }),
           ),
       )
-      .andThen(({ accessToken, content }) =>
-        this.githubContentProvider
-          .setupWebhook(accessToken, input.owner, input.repo)
+      .andThen(({ accessToken, scope, content }) =>
+        this.bookRepository
+          .listByOwnerAndRepo(input.owner, input.repo)
+          // 同じリポジトリのブックがある場合はWebhookを共有する
+          .andThen((books) =>
+            books[0]
+              ? okAsync(books[0].webhookId)
+              : this.githubContentProvider.setupWebhook(
+                  accessToken,
+                  input.owner,
+                  input.repo,
+                ),
+          )
           .map((webhookId) => ({
+            scope,
             content,
             webhookId,
           })),
       )
-      .andThen(({ content: { title, body }, webhookId }) =>
+      .andThen(({ scope, content: { title, body }, webhookId }) =>
         this.bookRepository.create({
           userId: input.userId,
           owner: input.owner,
           repo: input.repo,
+          slug,
           webhookId,
+          rootPath: scope.rootPath,
+          ignore: scope.ignore,
           details: {
             name: title || input.repo,
             description: body,
@@ -121,6 +273,15 @@ export class NoteService implements NoteUsecase {
           },
         }),
       )
+      .andThen((book) =>
+        this.bookMemberRepository
+          .save({
+            bookId: book.id,
+            userId: input.userId,
+            role: BookMemberRole.OWNER,
+          })
+          .map(() => book),
+      )
       .mapErr(
         (error) =>
           new ApplicationServiceError(
@@ -169,9 +330,10 @@ export class NoteService implements NoteUsecase {
   public getBookByRepo(input: {
     owner: string;
     repo: string;
+    slug?: string;
   }) {
     return this.bookRepository
-      .findByOwnerAndRepo(input.owner, input.repo)
+      .findByOwnerAndRepo(input.owner, input.repo, input.slug)
       .mapErr((error) => {
         return new ApplicationServiceError(
           "GetBookByRepo",
@@ -183,38 +345,194 @@ export class NoteService implements NoteUsecase {
       .orTee((error) => logger.debug("Failed to get book by repo", error));
   }
 
+  public listBooksByRepo(input: {
+    owner: string;
+    repo: string;
+  }) {
+    return this.bookRepository
+      .listByOwnerAndRepo(input.owner, input.repo)
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "ListBooksByRepo",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to list books by repo",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to list books by repo", error));
+  }
+
   deleteBook(input: {
     userId: string;
     bookId: string;
   }) {
-    return this.githubConnectionRepository
-      .findByUserId(input.userId)
-      .andThen((connection) =>
-        this.bookRepository.delete(input.bookId, input.userId).map((book) => ({
-          book,
-          connection,
-        })),
+    return (
+      this.bookRepository
+        .findById(input.bookId)
+        .andThen((book) =>
+          this.authorizeBook(book, input.userId, [BookMemberRole.OWNER]),
+        )
+        // Webhookはブックを追加したユーザーのGitHub連携で作成されている
+        .andThen((book) =>
+          this.githubConnectionRepository
+            .findByUserId(book.userId)
+            .andThen((connection) =>
+              this.bookRepository.delete(book.id, book.userId).map((book) => ({
+                book,
+                connection,
+              })),
+            ),
+        )
+        .andThen(({ book, connection }) =>
+          this.bookRepository
+            .listByOwnerAndRepo(book.owner, book.repo)
+            .map((books) => ({ book, connection, books })),
+        )
+        // 同じリポジトリの他のブックが使っているWebhookは残す
+        .map(({ book, connection, books }) =>
+          books.some(({ webhookId }) => webhookId === book.webhookId)
+            ? undefined
+            : this.githubContentProvider
+                .deleteWebhook(
+                  connection.accessToken,
+                  book.owner,
+                  book.repo,
+                  book.webhookId,
+                )
+                .unwrapOr(undefined),
+        )
+        .mapErr(
+          (error) =>
+            new ApplicationServiceError(
+              "DeleteBook",
+              ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+              "Failed to delete book",
+              error,
+            ),
+        )
+        .orTee((error) => logger.error("Failed to delete book", error))
+    );
+  }
+
+  public getBookRedirect(input: {
+    owner: string;
+    repo: string;
+  }) {
+    return this.bookRedirectRepository
+      .findByOwnerAndRepo(input.owner, input.repo)
+      .andThen((redirect) => this.bookRepository.findById(redirect.bookId))
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "GetBookRedirect",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to get book redirect",
+            error,
+          ),
       )
-      .map(({ book, connection }) =>
-        this.githubContentProvider
-          .deleteWebhook(
-            connection.accessToken,
-            book.owner,
-            book.repo,
-            book.webhookId,
-          )
-          .unwrapOr(undefined),
+      .orTee((error) => logger.debug("Failed to get book redirect", error));
+  }
+
+  /**
+   * 名前の変更や移管されたリポジトリにブックを付け替える
+   * 旧リポジトリのURLは新しいブックに転送する
+   * 移動先に同じスラッグのブックが残っている場合は、そのリポジトリ名を引き継いだものとして削除する
+   * @returns 付け替えたブックと削除したブックの数。ブックとして登録されていないリポジトリの場合は空
+   */
+  public moveBook(input: {
+    fromOwner: string;
+    fromRepo: string;
+    owner: string;
+    repo: string;
+  }) {
+    return ResultAsync.combine([
+      this.bookRepository.listByOwnerAndRepo(input.fromOwner, input.fromRepo),
+      this.bookRepository.listByOwnerAndRepo(input.owner, input.repo),
+    ])
+      .andThen(([books, existingBooks]) => {
+        const ids = new Set(books.map(({ id }) => id));
+        const slugs = new Set(books.map(({ slug }) => slug));
+        const clashingBooks = existingBooks.filter(
+          ({ id, slug }) => !ids.has(id) && slugs.has(slug),
+        );
+        for (const book of clashingBooks) {
+          logger.warn(
+            `Retiring ${book.owner}/${book.repo}/${book.slug} replaced by ${input.fromOwner}/${input.fromRepo}`,
+          );
+        }
+        return ResultAsync.combine(
+          clashingBooks.map((book) =>
+            this.bookRepository.delete(book.id, book.userId),
+          ),
+        ).map((retired) => ({ books, retired: retired.length }));
+      })
+      .andThen(({ books, retired }) =>
+        ResultAsync.combine(
+          books.map((book) =>
+            this.bookRepository.update({
+              id: book.id,
+              owner: input.owner,
+              repo: input.repo,
+            }),
+          ),
+        ).map((moved) => ({ moved, retired })),
+      )
+      .andThen(({ moved, retired }) =>
+        moved[0]
+          ? this.bookRedirectRepository
+              .create({
+                owner: input.fromOwner,
+                repo: input.fromRepo,
+                bookId: moved[0].id,
+              })
+              .map(() => ({ moved, retired }))
+          : okAsync({ moved, retired }),
       )
       .mapErr(
         (error) =>
           new ApplicationServiceError(
-            "DeleteBook",
+            "MoveBook",
             ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
-            "Failed to delete book",
+            "Failed to move book",
             error,
           ),
       )
-      .orTee((error) => logger.error("Failed to delete book", error));
+      .orTee((error) => logger.error("Failed to move book", error));
+  }
+
+  /**
+   * 削除された、またはアプリのアクセスが外されたリポジトリのブックを削除する
+   * @returns 削除したブックの数
+   */
+  public retireBooks(input: {
+    repositories: { owner: string; repo: string }[];
+  }) {
+    return ResultAsync.combine(
+      input.repositories.map(({ owner, repo }) =>
+        this.bookRepository
+          .listByOwnerAndRepo(owner, repo)
+          .andThen((books) =>
+            ResultAsync.combine(
+              books.map((book) =>
+                this.bookRepository.delete(book.id, book.userId),
+              ),
+            ),
+          )
+          .map((books) => books.length),
+      ),
+    )
+      .map((retired) => retired.reduce((sum, count) => sum + count, 0))
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "RetireBooks",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to retire books",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to retire books", error));
   }
 
   deleteAllWebhooks(input: {
@@ -227,14 +545,23 @@ export class NoteService implements NoteUsecase {
         ResultAsync.fromThrowable(
           () =>
             Promise.all(
-              books.map((book) =>
-                this.githubContentProvider.deleteWebhook(
-                  input.accessToken,
-                  book.owner,
-                  book.repo,
-                  book.webhookId,
+              // 同じリポジトリのブックはWebhookを共有している
+              books
+                .filter(
+                  (book, index) =>
+                    books.findIndex(
+                      ({ owner, repo }) =>
+                        owner === book.owner && repo === book.repo,
+                    ) === index,
+                )
+                .map((book) =>
+                  this.githubContentProvider.deleteWebhook(
+                    input.accessToken,
+                    book.owner,
+                    book.repo,
+                    book.webhookId,
+                  ),
                 ),
-              ),
             ),
           (e) => e,
         )(),
@@ -252,49 +579,175 @@ export class NoteService implements NoteUsecase {
       .orTee((error) => logger.error("Failed to delete book", error));
   }
 
-  public pushNotes(input: {
-    owner: string;
-    repo: string;
-    installationId: number;
-    commits: GitHubCommit[];
-  }) {
+  public pushNotes(input: GitHubPush & { bookId: string }) {
     return this.bookRepository
-      .findByOwnerAndRepo(input.owner, input.repo)
+      .findById(input.bookId)
       .andThen((book) =>
+        this.githubContentProvider
+          .compareCommits(
+            input.installationId,
+            input.owner,
+            input.repo,
+            input.before,
+            input.after,
+          )
+          .orElse(() => okAsync(changesFromCommits(input.commits)))
+          .map((changes) => ({
+            book,
+            changes: scopeFileChanges(book, changes),
+          })),
+      )
+      .andThen(({ book, changes }) =>
         ResultAsync.fromThrowable(
           async () => {
-            let synced = 0;
-            const added: Note[] = [];
-            for (const commit of input.commits) {
-              const modifiedNotes = await this.createNotes(
-                book,
-                commit.modified,
-                {
-                  token: input.installationId,
-                  owner: input.owner,
-                  repo: input.repo,
-                },
+            // ブランチの先頭ではなくPushされたコミットの内容を取得する
+            const fetchContent = ({ path }: { path: string }) =>
+              this.getContent(
+                input.owner,
+                input.repo,
+                path,
+                input.installationId,
+                input.after,
               );
-              const addedNotes = await this.createNotes(book, commit.added, {
-                token: input.installationId,
-                owner: input.owner,
-                repo: input.repo,
+
+            // リネームされたノートは投稿ごと新しいパスに移動し、旧パスからリダイレクトする
+            const moved = new Set<string>();
+            for (const change of changes) {
+              if (
+                change.status !== GitHubFileChangeStatus.RENAMED ||
+                !change.previousPath ||
+                !isNotePath(change.previousPath) ||
+                !isNotePath(change.path)
+              ) {
+                continue;
+              }
+
+              const fromPath = toNotePath(change.previousPath);
+              const toPath = toNotePath(change.path);
+              const result = await this.noteRepository
+                .move(book.id, fromPath, toPath)
+                .andThen(() =>
+                  this.noteRedirectRepository.create({
+                    bookId: book.id,
+                    fromPath,
+                    toPath,
+                  }),
+                );
+              if (result.isOk()) {
+                moved.add(change.path);
+              }
+            }
+
+            const isAdded = (change: GitHubFileChange) =>
+              change.status === GitHubFileChangeStatus.ADDED ||
+              (change.status === GitHubFileChangeStatus.RENAMED &&
+                !moved.has(change.path));
+            const upserted = changes.filter(
+              (change) => change.status !== GitHubFileChangeStatus.REMOVED,
+            );
+            // 移動したノートは公開日時を引き継ぐため、追加されたノートのみ最初のコミット日時を使う
+            const fileDates = fileDatesFromCommits(input.commits);
+            const fetchDates = (change: GitHubFileChange) =>
+              okAsync({
+                firstCommittedAt: isAdded(change)
+                  ? fileDates.get(change.path)?.firstCommittedAt || null
+                  : null,
+                lastCommittedAt:
+                  fileDates.get(change.path)?.lastCommittedAt || null,
               });
+            const addedNotes = await this.createNotes(
+              book,
+              upserted.filter(isAdded),
+              fetchContent,
+              fetchDates,
+            );
+            const modifiedNotes = await this.createNotes(
+              book,
+              upserted.filter((change) => !isAdded(change)),
+              fetchContent,
+              fetchDates,
+            );
+
+            // 削除・リネームされたファイルと、非公開になったファイルのノートを削除する
+            const removedPaths = changes.flatMap((change) => {
+              if (change.status === GitHubFileChangeStatus.REMOVED) {
+                return [change.path];
+              }
+              if (
+                change.status === GitHubFileChangeStatus.RENAMED &&
+                change.previousPath &&
+                !moved.has(change.path)
+              ) {
+                return [change.previousPath];
+              }
+              return [];
+            });
+            await this.noteRepository
+              .deleteByPath(
+                book.id,
+                [
+                  ...removedPaths,
+                  ...addedNotes.skipped,
+                  ...modifiedNotes.skipped,
+                ]
+                  .filter(isNotePath)
+                  .map(toNotePath),
+              )
+              .unwrapOr(null);
 
-              await this.noteRepository
-                .deleteByPath(
+            const failed = new Set([
+              ...addedNotes.failed,
+              ...modifiedNotes.failed,
+            ]);
+            await this.bookFileRepository
+              .deleteByPath(book.id, removedPaths)
+              .andThen(() =>
+                this.bookFileRepository.save(
                   book.id,
-                  commit.removed.filter(
-                    (filePath) =>
-                      filePath.endsWith(".md") && filePath !== "README.md",
+                  upserted.flatMap(({ path, sha }) =>
+                    sha && isNotePath(path) && !failed.has(path)
+                      ? [{ path, sha }]
+                      : [],
                   ),
-                )
-                .unwrapOr(null);
+                ),
+              )
+              .unwrapOr(null);
 
-              synced += modifiedNotes.length;
-              synced += addedNotes.length;
-              added.push(...addedNotes);
-            }
+            // コミットの作成者をノートのリビジョンとして記録する
+            const syncedNotes = new Map(
+              [...addedNotes.created, ...modifiedNotes.created].map((note) => [
+                note.path,
+                note.id,
+              ]),
+            );
+            await this.noteRevisionRepository
+              .createMany(
+                revisionsFromCommits(input.commits, changes).flatMap(
+                  ({ path, ...revision }) => {
+                    const noteId = syncedNotes.get(toNotePath(path));
+                    return noteId ? [{ noteId, ...revision }] : [];
+                  },
+                ),
+              )
+              .unwrapOr(null);
+
+            const synced =
+              addedNotes.created.length + modifiedNotes.created.length;
+
+            // SUMMARY.mdが変更された場合のみ目次の順序を更新する
+            const summaryPath = resolveBookPath(book, "SUMMARY.md");
+            const summaryChange = changes.find(
+              (change) =>
+                change.path === summaryPath ||
+                change.previousPath === summaryPath,
+            );
+            const summary =
+              summaryChange?.path === summaryPath &&
+              summaryChange.status !== GitHubFileChangeStatus.REMOVED
+                ? await fetchContent(summaryChange).unwrapOr(undefined)
+                : summaryChange
+                  ? null
+                  : undefined;
 
             await Promise.all([
               this.tagRepository.deleteUnused(book.id),
@@ -307,33 +760,41 @@ export class NoteService implements NoteUsecase {
               }),
             ]);
 
-            return { book, synced, added };
+            // 告知するのは誰でも閲覧できるノートのみとし、限定公開・URL限定公開のノートは含めない
+            const added = addedNotes.created.filter(
+              (note) => note.scope === NoteScope.PUBLIC,
+            );
+
+            return { book, synced, added, summary };
           },
           (e) => e,
         )(),
       )
-      .andThen(({ book, synced, added }) =>
+      .andThen(({ book, synced, added, summary }) =>
         this.githubContentProvider
           .getContentByInstallation(
             input.installationId,
             input.owner,
             input.repo,
-            "README.md",
+            resolveBookPath(book, "README.md"),
+            input.after,
           )
           .map((content) => ({
             book,
             synced,
             added,
+            summary,
             content: parseMarkdown(content),
           })),
       )
-      .andThen(({ book, synced, added, content: { title, body } }) =>
+      .andThen(({ book, synced, added, summary, content: { title, body } }) =>
         this.bookRepository
           .update({
             id: book.id,
             details: {
               name: title || book.details.name,
               description: body,
+              summary,
             },
             syncStatus: {
               lastSyncedAt: new Date(),
@@ -357,136 +818,879 @@ export class NoteService implements NoteUsecase {
       .orTee((error) => logger.error("Failed to push notes", error));
   }
 
-  public syncNotes(input: {
-    userId: string;
-    owner: string;
-    repo: string;
-  }) {
-    return this.githubConnectionRepository
-      .findByUserId(input.userId)
-      .andThen((connection) =>
-        this.bookRepository
-          .findByOwnerAndRepo(input.owner, input.repo)
-          .map((book) => ({ book, connection })),
+  /**
+   * Pushを変更されたファイルを公開範囲に含むブックごとに同期ジョブとして登録する
+   * 公開するブランチ以外へのPushやブランチの削除、公開範囲外のみの変更は無視する
+   */
+  public enqueuePushNotes(
+    input: GitHubPush & {
+      deliveryId: string | null;
+      ref: string;
+      defaultBranch: string;
+      deleted: boolean;
+    },
+  ) {
+    const { deliveryId, ref, defaultBranch, deleted, ...payload } = input;
+    const changes = changesFromCommits(payload.commits);
+    return this.bookRepository
+      .listByOwnerAndRepo(input.owner, input.repo)
+      .map((books) =>
+        books.filter(
+          (book) =>
+            !deleted &&
+            ref === `refs/heads/${book.branch ?? defaultBranch}` &&
+            (changes.length === 0 ||
+              scopeFileChanges(book, changes).length > 0),
+        ),
       )
-      .andThen(({ book, connection }) =>
-        this.githubContentProvider
-          .getContent(
-            connection.accessToken,
-            input.owner,
-            input.repo,
-            "README.md",
-          )
-          .map((content) => ({
-            book,
-            connection,
-            content: parseMarkdown(content),
-          }))
-          .orElse(() =>
-            okAsync({
-              book,
-              connection,
-              content: {
-                title: input.repo,
-                body: "",
-              },
-            }),
+      .andThen((books) =>
+        ResultAsync.combine(
+          books.map((book) =>
+            this.syncJobRepository
+              .create({
+                bookId: book.id,
+                deliveryId,
+                payload,
+              })
+              .andThen((job) =>
+                this.bookRepository
+                  .update({
+                    id: job.bookId,
+                    syncStatus: {
+                      status: SyncStatusCode.SYNCING,
+                    },
+                  })
+                  .map(() => job),
+              ),
           ),
+        ),
       )
-      .andThen(({ book, connection, content: { title, body } }) =>
-        this.bookRepository
-          .update({
-            id: book.id,
-            details: {
-              name: title || book.details.name,
-              description: body,
-            },
-          })
-          .map(() => ({
-            book,
-            connection,
-          })),
-      )
-      .andThen(({ book, connection }) =>
-        this.githubContentProvider
-          .listPaths(connection.accessToken, input.owner, input.repo)
-          .map((paths) => ({ book, connection, paths })),
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "EnqueuePushNotes",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to enqueue push notes",
+            error,
+          ),
       )
-      .andThen(({ book, connection, paths }) =>
-        ResultAsync.fromThrowable(
-          async () => {
-            const results = await this.createNotes(book, paths, {
-              token: connection.accessToken,
-              owner: input.owner,
-              repo: input.repo,
-            });
-
-            await Promise.all([
-              this.tagRepository.deleteUnused(book.id),
-              this.bookRepository.update({
-                id: book.id,
-                syncStatus: {
-                  lastSyncedAt: new Date(),
-                  status: SyncStatusCode.SYNCED,
-                },
-              }),
-            ]);
+      .orTee((error) => logger.error("Failed to enqueue push notes", error));
+  }
 
-            return { synced: results.filter((r) => r !== null).length };
-          },
-          (e) => e,
-        )(),
+  /**
+   * 実行可能な同期ジョブを1件取得し、実行中にする
+   * 実行中のまま最大試行回数に達したジョブは、ワーカーが毎回停止しているとみなして失敗にする
+   */
+  public claimSyncJob() {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - syncJobLockTimeout);
+    return this.syncJobRepository
+      .failStale(staleBefore, maxSyncJobAttempts)
+      .andThen((jobs) =>
+        ResultAsync.combine(
+          jobs.map((job) =>
+            this.bookRepository
+              .update({
+                id: job.bookId,
+                syncStatus: { status: SyncStatusCode.ERROR },
+              })
+              .andThen(() =>
+                job.deliveryId
+                  ? this.webhookDeliveryRepository.updateStatus(
+                      job.deliveryId,
+                      WebhookDeliveryStatus.FAILED,
+                      job.error,
+                    )
+                  : okAsync(null),
+              ),
+          ),
+        ),
+      )
+      .andThen(() =>
+        this.syncJobRepository.claim(now, staleBefore, maxSyncJobAttempts),
       )
       .mapErr(
         (error) =>
           new ApplicationServiceError(
-            "SyncNotes",
+            "ClaimSyncJob",
             ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
-            "Failed to sync notes",
+            "Failed to claim sync job",
             error,
           ),
       )
-      .orTee((error) => logger.error("Failed to sync notes", error));
+      .orTee((error) => logger.error("Failed to claim sync job", error));
   }
 
-  public listNotes(input: {
-    bookId: string;
-    pagination: PaginationParams;
+  public completeSyncJob(input: {
+    jobId: string;
   }) {
-    return this.noteRepository
-      .findByBookId(input.bookId, input.pagination)
+    return this.syncJobRepository
+      .update({
+        id: input.jobId,
+        status: SyncJobStatus.SUCCEEDED,
+        lockedAt: null,
+        error: null,
+      })
       .mapErr(
         (error) =>
           new ApplicationServiceError(
-            "ListNotes",
+            "CompleteSyncJob",
             ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
-            "Failed to list notes",
+            "Failed to complete sync job",
             error,
           ),
       )
-      .orTee((error) => logger.debug("Failed to list notes", error));
+      .orTee((error) => logger.error("Failed to complete sync job", error));
   }
 
-  public listAllNotes(input: {
-    bookId: string;
+  /**
+   * 失敗した同期ジョブを再実行待ちにする
+   * 最大試行回数に達した場合は失敗として、ブックの同期状態をエラーにする
+   */
+  public failSyncJob(input: {
+    job: SyncJob;
+    error: string;
   }) {
-    return this.noteRepository
-      .listAllByBookId(input.bookId)
+    const runAt = getSyncJobRetryAt(input.job.attempts);
+    return this.syncJobRepository
+      .update({
+        id: input.job.id,
+        status: runAt ? SyncJobStatus.QUEUED : SyncJobStatus.FAILED,
+        runAt: runAt || undefined,
+        lockedAt: null,
+        error: input.error,
+      })
+      .andThen((job) =>
+        job.status === SyncJobStatus.FAILED
+          ? this.bookRepository
+              .update({
+                id: job.bookId,
+                syncStatus: {
+                  status: SyncStatusCode.ERROR,
+                },
+              })
+              .map(() => job)
+          : ok(job),
+      )
       .mapErr(
         (error) =>
           new ApplicationServiceError(
-            "ListNotes",
+            "FailSyncJob",
             ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
-            "Failed to list notes",
+            "Failed to fail sync job",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to fail sync job", error));
+  }
+
+  /**
+   * すべてのブックのリポジトリのWebhookを現在の設定に更新する
+   * 削除されたWebhookは作成し直し、同じWebhookを共有していたブックに紐付け直す
+   */
+  public refreshWebhooks() {
+    return ResultAsync.fromThrowable(
+      async () => {
+        const limit = 100;
+        const refreshed = new Set<string>();
+        let updated = 0;
+        let failed = 0;
+        for (let page = 1; ; page++) {
+          const books = await this.bookRepository.list(page, limit);
+          if (books.isErr()) {
+            throw books.error;
+          }
+
+          for (const book of books.value) {
+            const key = `${book.owner}/${book.repo}/${book.webhookId}`;
+            if (refreshed.has(key)) {
+              continue;
+            }
+            refreshed.add(key);
+
+            const result = await this.githubConnectionRepository
+              .findByUserId(book.userId)
+              .andThen((connection) =>
+                this.githubContentProvider
+                  .updateWebhook(
+                    connection.accessToken,
+                    book.owner,
+                    book.repo,
+                    book.webhookId,
+                  )
+                  .andThen((found) =>
+                    found
+                      ? okAsync(undefined)
+                      : this.githubContentProvider
+                          .setupWebhook(
+                            connection.accessToken,
+                            book.owner,
+                            book.repo,
+                          )
+                          .andThen((webhookId) =>
+                            this.bookRepository
+                              .listByOwnerAndRepo(book.owner, book.repo)
+                              .andThen((books) =>
+                                ResultAsync.combine(
+                                  books
+                                    .filter(
+                                      ({ webhookId }) =>
+                                        webhookId === book.webhookId,
+                                    )
+                                    .map(({ id }) =>
+                                      this.bookRepository.update({
+                                        id,
+                                        webhookId,
+                                      }),
+                                    ),
+                                ),
+                              ),
+                          )
+                          .map(() => undefined),
+                  ),
+              )
+              .orTee((error) =>
+                logger.warn(`Failed to refresh webhook of ${key}`, error),
+              );
+
+            if (result.isOk()) {
+              updated++;
+            } else {
+              failed++;
+            }
+          }
+
+          if (books.value.length < limit) {
+            break;
+          }
+        }
+        return { updated, failed };
+      },
+      (e) => e,
+    )()
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "RefreshWebhooks",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to refresh webhooks",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to refresh webhooks", error));
+  }
+
+  public verifyWebhook(input: {
+    payload: string;
+    signature: string;
+  }) {
+    return okAsync(
+      this.githubContentProvider.validateWebhook(
+        input.payload,
+        input.signature,
+      ),
+    )
+      .andThen((valid) =>
+        valid
+          ? ok()
+          : err(
+              new ValidationError(
+                ValidationErrorCode.INVALID_VALUE,
+                "Invalid webhook signature",
+              ),
+            ),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "VerifyWebhook",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to verify webhook",
+            error,
+          ),
+      )
+      .orTee((error) => logger.warn("Failed to verify webhook", error));
+  }
+
+  /**
+   * Webhookの配信を記録する
+   * 処理済みまたは処理中の配信の場合はnullを返す
+   */
+  public startWebhookDelivery(input: {
+    deliveryId: string;
+    event: string;
+    owner?: string;
+    repo?: string;
+  }) {
+    return (
+      (
+        input.owner && input.repo
+          ? this.bookRepository.listByOwnerAndRepo(input.owner, input.repo)
+          : okAsync([])
+      )
+        // 同じリポジトリのブックの配信履歴はまとめて表示するため、先頭のブックに紐付ける
+        .map((books) => books[0]?.id ?? null)
+        .andThen((bookId) =>
+          this.webhookDeliveryRepository.create({
+            id: input.deliveryId,
+            bookId,
+            event: input.event,
+          }),
+        )
+        .map((delivery): WebhookDelivery | null => delivery)
+        .orElse((error) =>
+          error.code === RepositoryErrorCode.UNIQUE_VIOLATION
+            ? ok(null)
+            : err(error),
+        )
+        .mapErr(
+          (error) =>
+            new ApplicationServiceError(
+              "StartWebhookDelivery",
+              ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+              "Failed to start webhook delivery",
+              error,
+            ),
+        )
+        .orTee((error) =>
+          logger.error("Failed to start webhook delivery", error),
+        )
+    );
+  }
+
+  public finishWebhookDelivery(input: {
+    deliveryId: string;
+    error: string | null;
+  }) {
+    return this.webhookDeliveryRepository
+      .updateStatus(
+        input.deliveryId,
+        input.error
+          ? WebhookDeliveryStatus.FAILED
+          : WebhookDeliveryStatus.SUCCEEDED,
+        input.error,
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "FinishWebhookDelivery",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to finish webhook delivery",
+            error,
+          ),
+      )
+      .orTee((error) =>
+        logger.error("Failed to finish webhook delivery", error),
+      );
+  }
+
+  public listWebhookDeliveries(input: {
+    userId: string;
+    bookId: string;
+    limit?: number;
+  }) {
+    return this.bookRepository
+      .findById(input.bookId)
+      .andThen((book) => this.authorizeBook(book, input.userId))
+      .andThen((book) =>
+        this.bookRepository.listByOwnerAndRepo(book.owner, book.repo),
+      )
+      .andThen((books) =>
+        this.webhookDeliveryRepository.listByBookIds(
+          books.map(({ id }) => id),
+          input.limit || 20,
+        ),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "ListWebhookDeliveries",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to list webhook deliveries",
+            error,
+          ),
+      )
+      .orTee((error) =>
+        logger.debug("Failed to list webhook deliveries", error),
+      );
+  }
+
+  public updateBookSettings(input: {
+    userId: string;
+    bookId: string;
+    branch: string | null;
+    rootPath?: string | null;
+    ignore?: string[];
+  }) {
+    return this.bookRepository
+      .findById(input.bookId)
+      .andThen((book) => this.authorizeBook(book, input.userId))
+      .andThen((book) => {
+        const rootPath =
+          input.rootPath === undefined
+            ? book.rootPath
+            : normalizeRootPath(input.rootPath);
+        const ignore =
+          input.ignore?.map((glob) => glob.trim()).filter((glob) => glob) ??
+          book.ignore;
+        const branch = input.branch?.trim() || null;
+
+        // 公開範囲が変わった場合は次回の同期でツリー全体を比較し直す
+        const changed =
+          branch !== book.branch ||
+          rootPath !== book.rootPath ||
+          ignore.join("\n") !== book.ignore.join("\n");
+
+        return this.bookRepository.update({
+          id: book.id,
+          branch,
+          rootPath,
+          ignore,
+          ...(changed && {
+            syncStatus: {
+              treeSha: null,
+            },
+          }),
+        });
+      })
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "UpdateBookSettings",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to update book settings",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to update book settings", error));
+  }
+
+  public syncNotes(input: {
+    userId: string;
+    owner: string;
+    repo: string;
+    slug?: string;
+  }) {
+    return this.bookRepository
+      .findByOwnerAndRepo(input.owner, input.repo, input.slug)
+      .andThen((book) => this.authorizeBook(book, input.userId))
+      .andThen((book) => this.syncBook(book))
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "SyncNotes",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to sync notes",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to sync notes", error));
+  }
+
+  /**
+   * ツリーのSHAが記録されていない同期済みのブックのノートをすべて同期し直す
+   * 同期の形式を変えたマイグレーションの後、ノートやアセットの参照を作り直すために定期実行する
+   */
+  public resyncBooks(input: { limit?: number } = {}) {
+    return this.bookRepository
+      .listWithoutTreeSha(input.limit || 10)
+      .andThen((books) =>
+        ResultAsync.fromSafePromise(
+          (async () => {
+            let synced = 0;
+            let failed = 0;
+            for (const book of books) {
+              const result = await this.syncBook(book).orTee((error) =>
+                logger.warn(
+                  `Failed to resync ${book.owner}/${book.repo}/${book.slug}`,
+                  error,
+                ),
+              );
+              if (result.isOk()) {
+                synced++;
+                continue;
+              }
+
+              // 失敗したブックは後回しにして、他のブックの同期を妨げないようにする
+              failed++;
+              await this.bookRepository
+                .update({
+                  id: book.id,
+                  syncStatus: { status: SyncStatusCode.ERROR },
+                })
+                .unwrapOr(null);
+            }
+            return { synced, failed };
+          })(),
+        ),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "ResyncBooks",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to resync books",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to resync books", error));
+  }
+
+  /**
+   * リポジトリのツリーとの差分からブックのノートを同期する
+   * 編集者が同期する場合もブックを追加したユーザーのGitHub連携を使う
+   */
+  private syncBook(book: Book) {
+    return this.githubConnectionRepository
+      .findByUserId(book.userId)
+      .map((connection) => ({ book, connection }))
+      .andThen(({ book, connection }) =>
+        this.githubContentProvider
+          .getContent(
+            connection.accessToken,
+            book.owner,
+            book.repo,
+            resolveBookPath(book, "README.md"),
+            book.branch || undefined,
+          )
+          .map((content) => ({
+            book,
+            connection,
+            content: parseMarkdown(content),
+          }))
+          .orElse(() =>
+            okAsync({
+              book,
+              connection,
+              content: {
+                title: book.repo,
+                body: "",
+              },
+            }),
+          ),
+      )
+      .andThen(({ book, connection, content }) =>
+        this.githubContentProvider
+          .getContent(
+            connection.accessToken,
+            book.owner,
+            book.repo,
+            resolveBookPath(book, "SUMMARY.md"),
+            book.branch || undefined,
+          )
+          .orElse(() => okAsync(null))
+          .map((summary) => ({ book, connection, content, summary })),
+      )
+      .andThen(({ book, connection, content: { title, body }, summary }) =>
+        this.bookRepository
+          .update({
+            id: book.id,
+            details: {
+              name: title || book.details.name,
+              description: body,
+              summary,
+            },
+          })
+          .map(() => ({
+            book,
+            connection,
+          })),
+      )
+      .andThen(({ book, connection }) =>
+        this.githubContentProvider
+          .getTree(
+            connection.accessToken,
+            book.owner,
+            book.repo,
+            book.branch || undefined,
+          )
+          // ブックの公開範囲外のファイルは同期しない
+          .map((tree) => ({
+            ...tree,
+            files: tree.files.filter((file) => isInBookScope(book, file.path)),
+          }))
+          .andThen((tree) =>
+            ResultAsync.combine([
+              this.bookFileRepository.findByBookId(book.id),
+              this.noteRepository.listAllByBookId(book.id),
+              // コミット日時はGitHub Appのインストールがある場合のみ取得する
+              this.githubContentProvider
+                .getInstallationId(book.owner, book.repo)
+                .orElse(() => okAsync(null)),
+            ]).map(([files, notes, installationId]) => ({
+              book,
+              connection,
+              tree,
+              files,
+              notes,
+              installationId,
+            })),
+          ),
+      )
+      .andThen(({ book, connection, tree, files, notes, installationId }) =>
+        ResultAsync.fromThrowable(
+          async () => {
+            const { changed, removed } =
+              book.syncStatus.treeSha === tree.treeSha
+                ? { changed: [], removed: [] }
+                : diffFiles(files, tree.files);
+
+            const { created, skipped, failed } = await this.createNotes(
+              book,
+              changed,
+              ({ sha }) =>
+                this.githubContentProvider.getBlob(
+                  connection.accessToken,
+                  book.owner,
+                  book.repo,
+                  sha,
+                ),
+              ({ path }) =>
+                installationId
+                  ? this.githubContentProvider.getFileDates(
+                      installationId,
+                      book.owner,
+                      book.repo,
+                      path,
+                      book.branch || undefined,
+                    )
+                  : okAsync({
+                      firstCommittedAt: null,
+                      lastCommittedAt: null,
+                    }),
+            );
+
+            // リポジトリに存在しない、または公開でなくなったノートを削除する
+            const existingPaths = new Set(notes.map((note) => note.path));
+            const currentPaths = new Set(
+              tree.files.map((file) => toNotePath(file.path)),
+            );
+            const skippedPaths = new Set(skipped.map(toNotePath));
+            const removedNotePaths = notes
+              .map((note) => note.path)
+              .filter(
+                (path) => !currentPaths.has(path) || skippedPaths.has(path),
+              );
+
+            const written = await this.noteRepository
+              .deleteByPath(book.id, removedNotePaths)
+              .andThen(() =>
+                ResultAsync.combine([
+                  this.bookFileRepository.deleteByPath(book.id, removed),
+                  this.bookFileRepository.save(
+                    book.id,
+                    changed.filter((file) => !failed.includes(file.path)),
+                  ),
+                ]),
+              )
+              .orTee((error) =>
+                logger.error("Failed to save synced files", error),
+              );
+
+            // 書き込みに失敗した場合は次回の同期で差分を取り直せるようツリーのSHAを更新しない
+            await Promise.all([
+              this.tagRepository.deleteUnused(book.id),
+              this.bookRepository.update({
+                id: book.id,
+                syncStatus: {
+                  lastSyncedAt: new Date(),
+                  status: SyncStatusCode.SYNCED,
+                  ...(failed.length === 0 &&
+                    written.isOk() && {
+                      commitSha: tree.commitSha,
+                      treeSha: tree.treeSha,
+                    }),
+                },
+              }),
+            ]);
+
+            return {
+              created: created.filter((note) => !existingPaths.has(note.path))
+                .length,
+              updated: created.filter((note) => existingPaths.has(note.path))
+                .length,
+              removed: removedNotePaths.length,
+            };
+          },
+          (e) => e,
+        )(),
+      );
+  }
+
+  public getBookRole(input: {
+    userId: string;
+    bookId: string;
+  }) {
+    return this.bookRepository
+      .findById(input.bookId)
+      .andThen((book) => this.findBookRole(book, input.userId))
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "GetBookRole",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to get book role",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to get book role", error));
+  }
+
+  public listBookMembers(input: {
+    userId: string;
+    bookId: string;
+  }) {
+    return this.bookRepository
+      .findById(input.bookId)
+      .andThen((book) => this.authorizeBook(book, input.userId))
+      .andThen((book) => this.bookMemberRepository.listByBookId(book.id))
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "ListBookMembers",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to list book members",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to list book members", error));
+  }
+
+  public inviteBookMember(input: {
+    userId: string;
+    bookId: string;
+    handle: string;
+    role: BookMemberRole;
+  }) {
+    return this.bookRepository
+      .findById(input.bookId)
+      .andThen((book) =>
+        this.authorizeBook(book, input.userId, [BookMemberRole.OWNER]),
+      )
+      .andThen((book) =>
+        this.userRepository
+          .findByHandle(input.handle.trim().replace(/^@/, ""))
+          .andThen((user) =>
+            user.id === book.userId
+              ? err(
+                  new ValidationError(
+                    ValidationErrorCode.INVALID_VALUE,
+                    "The user who added the book is always an owner",
+                  ),
+                )
+              : ok(user),
+          )
+          .andThen((user) =>
+            this.bookMemberRepository.save({
+              bookId: book.id,
+              userId: user.id,
+              role: input.role,
+            }),
+          ),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "InviteBookMember",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to invite book member",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to invite book member", error));
+  }
+
+  public removeBookMember(input: {
+    userId: string;
+    bookId: string;
+    memberId: string;
+  }) {
+    // 自分自身はいつでもブックから抜けられる
+    const roles =
+      input.memberId === input.userId
+        ? [BookMemberRole.OWNER, BookMemberRole.EDITOR]
+        : [BookMemberRole.OWNER];
+
+    return this.bookRepository
+      .findById(input.bookId)
+      .andThen((book) => this.authorizeBook(book, input.userId, roles))
+      .andThen((book) =>
+        book.userId === input.memberId
+          ? err(
+              new ValidationError(
+                ValidationErrorCode.INVALID_VALUE,
+                "The user who added the book cannot be removed",
+              ),
+            )
+          : ok(book),
+      )
+      .andThen((book) =>
+        this.bookMemberRepository.delete(book.id, input.memberId),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "RemoveBookMember",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to remove book member",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to remove book member", error));
+  }
+
+  public listNotes(input: {
+    bookId: string;
+    pagination: PaginationParams;
+  }) {
+    return this.noteRepository
+      .findByBookId(input.bookId, input.pagination)
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "ListNotes",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to list notes",
             error,
           ),
       )
       .orTee((error) => logger.debug("Failed to list notes", error));
   }
 
+  public listAllNotes(input: {
+    bookId: string;
+  }) {
+    return (
+      this.noteRepository
+        .listAllByBookId(input.bookId)
+        // 限定公開のノートは一覧に含めない
+        .map((notes) => notes.filter((note) => note.scope === NoteScope.PUBLIC))
+        .mapErr(
+          (error) =>
+            new ApplicationServiceError(
+              "ListNotes",
+              ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+              "Failed to list notes",
+              error,
+            ),
+        )
+        .orTee((error) => logger.debug("Failed to list notes", error))
+    );
+  }
+
   public searchNotes(input: SearchNotesInput) {
+    const query = input.query ? parseSearchQuery(input.query) : null;
+    const keywords = query ? getSearchKeywords(query) : [];
     return this.noteRepository
-      .search(input.bookId, input.query, input.pagination)
+      .search(input.bookId, query, input.pagination)
+      .map(({ items, count }) => ({
+        items: items.map((note) => ({
+          ...note,
+          snippet:
+            keywords.length > 0 ? createSnippet(note.body, keywords) : null,
+        })),
+        count,
+      }))
       .mapErr(
         (error) =>
           new ApplicationServiceError(
@@ -500,10 +1704,14 @@ export class NoteService implements NoteUsecase {
   }
 
   public getNote(input: {
+    handle: string;
+    owner: string;
+    repo: string;
+    slug: string;
     notePath: string;
+    userId?: string | null;
   }) {
-    return this.noteRepository
-      .findByPath(input.notePath)
+    return this.findViewableNote(input)
       .mapErr(
         (error) =>
           new ApplicationServiceError(
@@ -516,6 +1724,346 @@ export class NoteService implements NoteUsecase {
       .orTee((error) => logger.debug("Failed to get note", error));
   }
 
+  public listNoteRevisions(input: {
+    noteId: string;
+    limit?: number;
+  }) {
+    return this.noteRevisionRepository
+      .listByNoteId(input.noteId, input.limit || 20)
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "ListNoteRevisions",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to list note revisions",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to list note revisions", error));
+  }
+
+  public listNoteCommits(input: {
+    handle: string;
+    owner: string;
+    repo: string;
+    slug: string;
+    notePath: string;
+    userId?: string | null;
+    limit?: number;
+  }) {
+    return this.findViewableNoteInScope(input)
+      .andThen(({ note, book }) =>
+        this.githubContentProvider
+          .getInstallationId(book.owner, book.repo)
+          .andThen((installationId) =>
+            this.githubContentProvider.listCommits(
+              installationId,
+              book.owner,
+              book.repo,
+              toFilePath(note.path),
+              book.branch || undefined,
+              input.limit,
+            ),
+          ),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "ListNoteCommits",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to list note commits",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to list note commits", error));
+  }
+
+  /**
+   * 2つのコミット時点のノートのMarkdownを比較する
+   * 比較元を省略した場合はノートが作成されたコミットとして空のテキストと比較する
+   * 公開するブランチでノートを変更したコミットのSHA以外は指定できない
+   */
+  public diffNoteVersions(input: {
+    handle: string;
+    owner: string;
+    repo: string;
+    slug: string;
+    notePath: string;
+    userId?: string | null;
+    base: string | null;
+    head: string;
+  }) {
+    return (
+      this.findViewableNoteInScope(input)
+        .andThen(({ note, book }) =>
+          this.githubContentProvider
+            .getInstallationId(book.owner, book.repo)
+            .map((installationId) => ({ note, book, installationId })),
+        )
+        // ブランチ名や短縮SHAは他のブランチの内容を指せるため、コミット一覧にある完全なSHAのみ受け付ける
+        .andThen(({ note, book, installationId }) =>
+          this.githubContentProvider
+            .listCommits(
+              installationId,
+              book.owner,
+              book.repo,
+              toFilePath(note.path),
+              book.branch || undefined,
+            )
+            .andThen((commits) => {
+              const shas = new Set(commits.map(({ sha }) => sha));
+              const isNoteCommit = (ref: string) =>
+                /^[0-9a-f]{40}$/.test(ref) && shas.has(ref);
+              return isNoteCommit(input.head) &&
+                (!input.base || isNoteCommit(input.base))
+                ? ok({ note, book, installationId })
+                : err(
+                    new RepositoryError(
+                      RepositoryErrorCode.NOT_FOUND,
+                      "Note version not found",
+                    ),
+                  );
+            }),
+        )
+        .andThen(({ note, book, installationId }) =>
+          ResultAsync.combine([
+            input.base
+              ? this.getNoteVersion(
+                  book,
+                  installationId,
+                  note,
+                  input.base,
+                  input.userId || null,
+                )
+              : okAsync(""),
+            this.getNoteVersion(
+              book,
+              installationId,
+              note,
+              input.head,
+              input.userId || null,
+            ),
+          ]),
+        )
+        .map(([before, after]) => diffLines(before, after))
+        .mapErr(
+          (error) =>
+            new ApplicationServiceError(
+              "DiffNoteVersions",
+              ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+              "Failed to diff note versions",
+              error,
+            ),
+        )
+        .orTee((error) => logger.debug("Failed to diff note versions", error))
+    );
+  }
+
+  public createNotePreview(input: {
+    userId: string;
+    bookId: string;
+    path: string;
+    expiresIn: number;
+  }) {
+    return this.bookRepository
+      .findById(input.bookId)
+      .andThen((book) =>
+        this.authorizeBook(book, input.userId, [BookMemberRole.OWNER]),
+      )
+      .andThen((book) => {
+        const path = resolveBookPath(
+          book,
+          input.path.trim().replace(/^\/+/, ""),
+        );
+        return isNotePath(path) &&
+          isInBookScope(book, path) &&
+          input.expiresIn > 0 &&
+          input.expiresIn <= maxPreviewExpiresIn
+          ? ok({ book, path })
+          : err(
+              new ValidationError(
+                ValidationErrorCode.INVALID_VALUE,
+                "Invalid preview settings",
+              ),
+            );
+      })
+      .andThen(({ book, path }) => {
+        const expiresAt = new Date(Date.now() + input.expiresIn * 1000);
+        return this.previewTokenProvider
+          .sign({ bookId: book.id, path, expiresAt })
+          .map((token) => ({ token, expiresAt }));
+      })
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "CreateNotePreview",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to create note preview",
+            error,
+          ),
+      )
+      .orTee((error) => logger.error("Failed to create note preview", error));
+  }
+
+  public getNotePreview(input: {
+    token: string;
+  }) {
+    return this.resolveNotePreview(input.token)
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "GetNotePreview",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to get note preview",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to get note preview", error));
+  }
+
+  public getNoteRedirect(input: {
+    bookId: string;
+    notePath: string;
+  }) {
+    return this.noteRedirectRepository
+      .findByPath(input.bookId, input.notePath)
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "GetNoteRedirect",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to get note redirect",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to get note redirect", error));
+  }
+
+  public getAsset(input: {
+    owner: string;
+    repo: string;
+    slug?: string;
+    path: string;
+    userId: string | null;
+    previewToken?: string;
+  }) {
+    return okAsync(getAssetContentType(input.path))
+      .andThen((contentType) =>
+        contentType
+          ? ok(contentType)
+          : err(
+              new ValidationError(
+                ValidationErrorCode.INVALID_FORMAT,
+                "Unsupported asset type",
+              ),
+            ),
+      )
+      .andThen((contentType) =>
+        this.bookRepository
+          .findByOwnerAndRepo(input.owner, input.repo, input.slug)
+          .andThen((book) =>
+            isInBookScope(book, input.path)
+              ? ok(book)
+              : err(
+                  new ValidationError(
+                    ValidationErrorCode.INVALID_VALUE,
+                    "Asset is out of the book scope",
+                  ),
+                ),
+          )
+          .andThen((book) =>
+            this.authorizeAsset(
+              book,
+              input.path,
+              input.userId,
+              input.previewToken,
+            ).map((isPublic) => ({ book, isPublic })),
+          )
+          .andThen(({ book, isPublic }) =>
+            this.githubContentProvider
+              .getInstallationId(input.owner, input.repo)
+              .andThen((installationId) =>
+                this.githubContentProvider.getAssetByInstallation(
+                  installationId,
+                  input.owner,
+                  input.repo,
+                  input.path,
+                  book.branch || undefined,
+                ),
+              )
+              .map((asset) => ({ ...asset, contentType, isPublic })),
+          ),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "GetAsset",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to get asset",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to get asset", error));
+  }
+
+  public getNoteTree(input: {
+    bookId: string;
+  }) {
+    return ResultAsync.combine([
+      this.bookRepository.findById(input.bookId),
+      this.noteRepository.listTreeItemsByBookId(input.bookId),
+    ])
+      .map(([book, notes]) =>
+        buildNoteTree(
+          notes,
+          parseSummary(book.details.summary || "").map((path) =>
+            resolveBookPath(book, path),
+          ),
+        ),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "GetNoteTree",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to get note tree",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to get note tree", error));
+  }
+
+  public getAdjacentNotes(input: {
+    bookId: string;
+    notePath: string;
+  }) {
+    return this.getNoteTree({ bookId: input.bookId }).map((tree) =>
+      findAdjacentNotes(tree, input.notePath),
+    );
+  }
+
+  public listBacklinks(input: {
+    noteId: string;
+  }) {
+    return this.noteRepository
+      .findById(input.noteId)
+      .andThen((note) =>
+        this.noteRepository
+          .findByLinkTargets(note.bookId, wikiLinkKeys(note))
+          .map((notes) => notes.filter(({ id }) => id !== note.id)),
+      )
+      .mapErr(
+        (error) =>
+          new ApplicationServiceError(
+            "ListBacklinks",
+            ApplicationServiceErrorCode.NOTE_CONTEXT_ERROR,
+            "Failed to list backlinks",
+            error,
+          ),
+      )
+      .orTee((error) => logger.debug("Failed to list backlinks", error));
+  }
+
   public listTags(input: {
     bookId: string;
   }) {
@@ -552,10 +2100,14 @@ export class NoteService implements NoteUsecase {
   }
 
   deleteNote(input: {
+    userId: string;
     noteId: string;
   }) {
     return this.noteRepository
-      .delete(input.noteId)
+      .findById(input.noteId)
+      .andThen((note) => this.bookRepository.findById(note.bookId))
+      .andThen((book) => this.authorizeBook(book, input.userId))
+      .andThen(() => this.noteRepository.delete(input.noteId))
       .mapErr(
         (error) =>
           new ApplicationServiceError(
@@ -632,11 +2184,337 @@ export class NoteService implements NoteUsecase {
       );
   }
 
+  /**
+   * 指定した場所のノートをユーザーが閲覧できる場合に取得する
+   * 閲覧できない場合は存在しないノートとして扱う
+   */
+  private findViewableNote(input: {
+    handle: string;
+    owner: string;
+    repo: string;
+    slug: string;
+    notePath: string;
+    userId?: string | null;
+  }) {
+    return this.noteRepository
+      .findByLocation({
+        handle: input.handle,
+        owner: input.owner,
+        repo: input.repo,
+        slug: input.slug,
+        path: input.notePath,
+      })
+      .andThen((note) =>
+        this.canViewNote(note, input.userId || null).andThen((allowed) =>
+          allowed
+            ? ok(note)
+            : err(
+                new RepositoryError(
+                  RepositoryErrorCode.NOT_FOUND,
+                  "Note not found",
+                ),
+              ),
+        ),
+      );
+  }
+
+  /**
+   * ユーザーが閲覧できるノートとブックを取得する
+   * GitHubから履歴を取得する前に、ノートがブックの公開範囲に含まれることも確認する
+   */
+  private findViewableNoteInScope(input: {
+    handle: string;
+    owner: string;
+    repo: string;
+    slug: string;
+    notePath: string;
+    userId?: string | null;
+  }) {
+    return this.findViewableNote(input).andThen((note) =>
+      this.bookRepository
+        .findById(note.bookId)
+        .andThen((book) =>
+          isInBookScope(book, toFilePath(note.path))
+            ? ok({ note, book })
+            : err(
+                new RepositoryError(
+                  RepositoryErrorCode.NOT_FOUND,
+                  "Note not found",
+                ),
+              ),
+        ),
+    );
+  }
+
+  /**
+   * ユーザーがノートを閲覧できるかどうかを判定する
+   * 限定公開のノートはフロントマターのaudienceに一致するサインイン中のユーザーのみ閲覧できる
+   */
+  private canViewNote(
+    note: Note,
+    userId: string | null,
+  ): ResultAsync<boolean, RepositoryError> {
+    if (note.scope === NoteScope.PUBLIC || note.scope === NoteScope.UNLISTED) {
+      return okAsync(true);
+    }
+    if (note.scope !== NoteScope.LIMITED || !userId) {
+      return okAsync(false);
+    }
+    if (note.userId === userId) {
+      return okAsync(true);
+    }
+
+    return this.userRepository.findById(userId).andThen((viewer) => {
+      if (isListedInAudience(note.audience, viewer)) {
+        return okAsync(true);
+      }
+
+      const isCollaborator = note.audience.includes(NoteAudience.COLLABORATORS)
+        ? this.bookRepository
+            .findById(note.bookId)
+            .andThen((book) => this.findBookRole(book, userId))
+            .map((role) => role !== null)
+        : okAsync(false);
+
+      return isCollaborator.andThen((allowed) =>
+        allowed || !note.audience.includes(NoteAudience.FOLLOWING)
+          ? okAsync(allowed)
+          : this.userRepository.findById(note.userId).andThen((author) =>
+              // Blueskyに問い合わせられない場合は閲覧を許可しない
+              this.blueskyGraphProvider
+                .isFollowing(author.did, viewer.did)
+                .orElse((error) => {
+                  logger.warn("Failed to check following", error);
+                  return okAsync(false);
+                }),
+            ),
+      );
+    });
+  }
+
+  /**
+   * ユーザーがアセットを参照しているノートやブックの説明、プレビューを閲覧できることを確認する
+   * 誰でも閲覧できるものから参照されている場合はtrue、閲覧できるユーザーが限られる場合はfalseを返す
+   */
+  private authorizeAsset(
+    book: Book,
+    path: string,
+    userId: string | null,
+    previewToken?: string,
+  ): ResultAsync<
+    boolean,
+    RepositoryError | ValidationError | ExternalServiceError
+  > {
+    const notAllowed = () =>
+      err(
+        new ValidationError(
+          ValidationErrorCode.INVALID_VALUE,
+          "Asset is not referenced by a viewable note",
+        ),
+      );
+
+    if (
+      extractAssetPaths(
+        book.details.description,
+        resolveBookPath(book, "README.md"),
+      ).includes(path)
+    ) {
+      return okAsync(true);
+    }
+
+    return this.noteRepository.findByAsset(book.id, path).andThen((notes) => {
+      if (
+        notes.some(
+          (note) =>
+            note.scope === NoteScope.PUBLIC ||
+            note.scope === NoteScope.UNLISTED,
+        )
+      ) {
+        return okAsync(true);
+      }
+
+      return ResultAsync.combine(
+        notes.map((note) => this.canViewNote(note, userId)),
+      ).andThen((viewable) => {
+        if (viewable.some((allowed) => allowed)) {
+          return okAsync(false);
+        }
+        if (!previewToken) {
+          return notAllowed();
+        }
+
+        return this.resolveNotePreview(previewToken).andThen(
+          ({ preview, markdown }) =>
+            preview.bookId === book.id &&
+            extractAssetPaths(
+              markdown.body,
+              preview.path,
+              markdown.coverImage,
+            ).includes(path)
+              ? ok(false)
+              : notAllowed(),
+        );
+      });
+    });
+  }
+
+  /**
+   * プレビューのトークンを検証し、プレビューするファイルの内容を取得する
+   */
+  private resolveNotePreview(token: string) {
+    return (
+      this.previewTokenProvider
+        .verify(token)
+        .andThen((preview) =>
+          preview.expiresAt > new Date()
+            ? ok(preview)
+            : err(
+                new ValidationError(
+                  ValidationErrorCode.INVALID_VALUE,
+                  "Preview has expired",
+                ),
+              ),
+        )
+        .andThen((preview) =>
+          this.bookRepository
+            .findById(preview.bookId)
+            .map((book) => ({ preview, book })),
+        )
+        // 発行後にブックの公開範囲から外れたファイルはプレビューしない
+        .andThen(({ preview, book }) =>
+          isInBookScope(book, preview.path)
+            ? ok({ preview, book })
+            : err(
+                new ValidationError(
+                  ValidationErrorCode.INVALID_VALUE,
+                  "File is out of the book scope",
+                ),
+              ),
+        )
+        .andThen(({ preview, book }) =>
+          this.githubContentProvider
+            .getInstallationId(book.owner, book.repo)
+            .andThen((installationId) =>
+              this.githubContentProvider.getContentByInstallation(
+                installationId,
+                book.owner,
+                book.repo,
+                preview.path,
+                book.branch || undefined,
+              ),
+            )
+            .map((content) => ({
+              preview,
+              book,
+              markdown: parseMarkdown(content),
+            })),
+        )
+    );
+  }
+
+  /**
+   * ユーザーのブックに対する権限を取得する
+   * ブックを追加したユーザーは常にオーナーとして扱う
+   */
+  private findBookRole(
+    book: Book,
+    userId: string,
+  ): ResultAsync<BookMemberRole | null, RepositoryError> {
+    if (book.userId === userId) {
+      return okAsync(BookMemberRole.OWNER);
+    }
+
+    return this.bookMemberRepository
+      .findByBookIdAndUserId(book.id, userId)
+      .map((member) => member.role)
+      .orElse((error) =>
+        error.code === RepositoryErrorCode.NOT_FOUND ? ok(null) : err(error),
+      );
+  }
+
+  /**
+   * ユーザーが指定した権限でブックを管理できることを確認する
+   */
+  private authorizeBook(
+    book: Book,
+    userId: string,
+    roles: BookMemberRole[] = [BookMemberRole.OWNER, BookMemberRole.EDITOR],
+  ) {
+    return this.findBookRole(book, userId).andThen((role) =>
+      role && roles.includes(role)
+        ? ok(book)
+        : err(
+            new ValidationError(
+              ValidationErrorCode.INVALID_VALUE,
+              "User is not allowed to manage the book",
+            ),
+          ),
+    );
+  }
+
+  /**
+   * 指定したコミット時点のノートのMarkdownを取得する
+   * コミット時点の内容は変わらないため、一度取得した内容を保存して使い回す
+   * その時点の公開範囲でユーザーが閲覧できない内容は取得しない
+   */
+  private getNoteVersion(
+    book: Book,
+    installationId: number,
+    note: Note,
+    commitSha: string,
+    userId: string | null,
+  ) {
+    return this.noteVersionRepository
+      .findByCommit(book.id, note.path, commitSha)
+      .map(({ content }) => ({ content, saved: true }))
+      .orElse(() =>
+        this.githubContentProvider
+          .getContentByInstallation(
+            installationId,
+            book.owner,
+            book.repo,
+            toFilePath(note.path),
+            commitSha,
+          )
+          .map((content) => ({ content, saved: false })),
+      )
+      .andThen(({ content, saved }) => {
+        const { scope, audience } = parseMarkdown(content);
+        return (
+          this.canViewNote({ ...note, scope, audience }, userId)
+            .andThen((allowed) =>
+              allowed
+                ? ok(content)
+                : err(
+                    new ValidationError(
+                      ValidationErrorCode.INVALID_VALUE,
+                      "Note version is not viewable",
+                    ),
+                  ),
+            )
+            // 閲覧できない時点の内容は保存しない
+            .andThen(() =>
+              saved
+                ? okAsync(content)
+                : this.noteVersionRepository
+                    .save({
+                      bookId: book.id,
+                      path: note.path,
+                      commitSha,
+                      content,
+                    })
+                    .map(() => content),
+            )
+        );
+      });
+  }
+
   private getContent(
     owner: string,
     repo: string,
     path: string,
     token: string | number,
+    ref?: string,
   ) {
     if (typeof token === "number") {
       return this.githubContentProvider.getContentByInstallation(
@@ -644,51 +2522,79 @@ export class NoteService implements NoteUsecase {
         owner,
         repo,
         path,
+        ref,
       );
     }
-    return this.githubContentProvider.getContent(token, owner, repo, path);
+    return this.githubContentProvider.getContent(token, owner, repo, path, ref);
   }
 
-  private async createNotes(
+  /**
+   * 指定したファイルからノートを作成または更新する
+   * 非公開のファイルはskipped、取得に失敗したファイルはfailedとして返す
+   * コミット日時が取得できない場合は保存済みの日時を残す
+   */
+  private async createNotes<T extends { path: string }>(
     book: Book,
-    paths: string[],
-    installation: {
-      token: string | number;
-      owner: string;
-      repo: string;
-    },
+    files: T[],
+    fetchContent: (file: T) => ResultAsync<string, ExternalServiceError>,
+    fetchDates: (file: T) => ResultAsync<GitHubFileDates, ExternalServiceError>,
   ) {
     const created: Note[] = [];
-    for (const path of paths) {
-      if (path.endsWith(".md") && path !== "README.md") {
-        const contentResult = (
-          await this.getContent(
-            installation.owner,
-            installation.repo,
-            path,
-            installation.token,
-          )
-        ).map((content) => parseMarkdown(content));
+    const skipped: string[] = [];
+    const failed: string[] = [];
+    // ルートパスを指定したブックでは、ルートパス直下のREADME.mdをブックの説明として使う
+    const readmePath = resolveBookPath(book, "README.md");
+    for (const file of files) {
+      const path = file.path;
+      if (isNotePath(path) && path !== readmePath) {
+        const contentResult = (await fetchContent(file)).map((content) =>
+          parseMarkdown(content),
+        );
 
         if (contentResult.isErr()) {
+          failed.push(path);
           continue;
         }
 
-        const { title, body, tags, scope } = contentResult.value;
+        const {
+          title,
+          body,
+          tags,
+          links,
+          scope,
+          audience,
+          description,
+          publishedAt,
+          coverImage,
+          sortOrder,
+          toc,
+        } = contentResult.value;
 
-        if (scope !== NoteScope.PUBLIC) {
+        if (scope === NoteScope.PRIVATE) {
+          skipped.push(path);
           continue;
         }
 
+        const dates = await fetchDates(file).unwrapOr(null);
+
         await this.noteRepository
           .createOrUpdate({
             userId: book.userId,
             bookId: book.id,
-            path: path.replace("/", separator),
+            path: toNotePath(path),
             title: title || path.split("/").slice(-1)[0].replace(/\.md$/, ""),
             body,
             scope,
+            audience,
+            description,
+            coverImage,
+            publishedAt: publishedAt || dates?.firstCommittedAt || null,
+            modifiedAt: dates?.lastCommittedAt || null,
+            sortOrder,
+            toc,
             tags,
+            links,
+            assets: extractAssetPaths(body, path, coverImage),
           })
           .match(
             (note) => {
@@ -697,11 +2603,12 @@ export class NoteService implements NoteUsecase {
               }
             },
             (error) => {
+              failed.push(path);
               logger.error("Failed to create note", error);
             },
           );
       }
     }
-    return created;
+    return { created, skipped, failed };
   }
 }
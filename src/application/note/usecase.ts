@@ -1,7 +1,25 @@
 import type { User } from "@/domain/account/models/user";
-import type { GitHubCommit, GitHubRepository } from "@/domain/note/dtos";
+import type {
+  GitHubAsset,
+  GitHubFileCommit,
+  GitHubPush,
+  GitHubRepository,
+  NotePreview,
+  SearchSnippet,
+} from "@/domain/note/dtos";
+import type { ParsedMarkdown } from "@/domain/note/dtos/parsed-markdown";
 import type { Book } from "@/domain/note/models/book";
+import type {
+  BookMember,
+  BookMemberRole,
+} from "@/domain/note/models/book-member";
 import type { Note } from "@/domain/note/models/note";
+import type { NoteRedirect } from "@/domain/note/models/note-redirect";
+import type { NoteRevision } from "@/domain/note/models/note-revision";
+import type { SyncJob } from "@/domain/note/models/sync-job";
+import type { WebhookDelivery } from "@/domain/note/models/webhook-delivery";
+import type { NoteTreeNode } from "@/domain/note/services/build-note-tree";
+import type { DiffLine } from "@/domain/note/services/diff-lines";
 import type { ApplicationServiceError } from "@/domain/types/error";
 import {
   type PaginationParams,
@@ -21,9 +39,17 @@ export const addBookInputSchema = z.object({
   userId: z.string(),
   owner: z.string(),
   repo: z.string(),
+  slug: z.string().optional(),
+  rootPath: z.string().nullish(),
+  ignore: z.array(z.string()).optional(),
 });
 export type AddBookInput = z.infer<typeof addBookInputSchema>;
 
+/**
+ * 目次に表示するノート
+ */
+export type NoteTreeEntry = Pick<Note, "id" | "path" | "title" | "sortOrder">;
+
 export interface NoteUsecase {
   /**
    * GitHubのリポジトリ一覧を取得する
@@ -57,11 +83,24 @@ export interface NoteUsecase {
     bookId: string;
   }) => ResultAsync<Book, ApplicationServiceError>;
 
+  /**
+   * オーナーとリポジトリ、スラッグからブックを取得する
+   * スラッグを省略した場合はリポジトリの既定のブックを取得する
+   */
   getBookByRepo: (input: {
     owner: string;
     repo: string;
+    slug?: string;
   }) => ResultAsync<Book, ApplicationServiceError>;
 
+  /**
+   * リポジトリのブック一覧を取得する
+   */
+  listBooksByRepo: (input: {
+    owner: string;
+    repo: string;
+  }) => ResultAsync<Book[], ApplicationServiceError>;
+
   /**
    * ブックを削除する
    */
@@ -77,22 +116,194 @@ export interface NoteUsecase {
 
   /**
    * GitHubのPushからノートを作成する
+   * addedには新しく追加されたノートのうち、公開範囲が公開のノートのみを含める
+   */
+  pushNotes: (
+    input: GitHubPush & { bookId: string },
+  ) => ResultAsync<{ synced: number; added: Note[] }, ApplicationServiceError>;
+
+  /**
+   * GitHubのPushを公開範囲に含むブックごとに同期ジョブとして登録する
+   * 公開するブランチ以外へのPushは無視する
+   */
+  enqueuePushNotes: (
+    input: GitHubPush & {
+      deliveryId: string | null;
+      ref: string;
+      defaultBranch: string;
+      deleted: boolean;
+    },
+  ) => ResultAsync<SyncJob[], ApplicationServiceError>;
+
+  /**
+   * 実行可能な同期ジョブを1件取得し、実行中にする
+   * 実行中のまま最大試行回数に達したジョブは失敗にする
+   */
+  claimSyncJob: () => ResultAsync<SyncJob | null, ApplicationServiceError>;
+
+  /**
+   * 同期ジョブを完了にする
+   */
+  completeSyncJob: (input: {
+    jobId: string;
+  }) => ResultAsync<SyncJob, ApplicationServiceError>;
+
+  /**
+   * 失敗した同期ジョブを再実行待ちにする
+   * 最大試行回数に達した場合は失敗にする
+   */
+  failSyncJob: (input: {
+    job: SyncJob;
+    error: string;
+  }) => ResultAsync<SyncJob, ApplicationServiceError>;
+
+  /**
+   * ツリーのSHAが記録されていない同期済みのブックのノートをすべて同期し直す
+   */
+  resyncBooks: (input?: {
+    limit?: number;
+  }) => ResultAsync<
+    { synced: number; failed: number },
+    ApplicationServiceError
+  >;
+
+  /**
+   * すべてのブックのリポジトリのWebhookを現在の設定に更新する
+   * 削除されたWebhookは作成し直す
+   */
+  refreshWebhooks: () => ResultAsync<
+    { updated: number; failed: number },
+    ApplicationServiceError
+  >;
+
+  /**
+   * Webhookの署名を検証する
+   */
+  verifyWebhook: (input: {
+    payload: string;
+    signature: string;
+  }) => ResultAsync<void, ApplicationServiceError>;
+
+  /**
+   * Webhookの配信を記録する
+   * 処理済みまたは処理中の配信の場合はnullを返す
    */
-  pushNotes: (input: {
+  startWebhookDelivery: (input: {
+    deliveryId: string;
+    event: string;
+    owner?: string;
+    repo?: string;
+  }) => ResultAsync<WebhookDelivery | null, ApplicationServiceError>;
+
+  /**
+   * Webhookの配信結果を記録する
+   */
+  finishWebhookDelivery: (input: {
+    deliveryId: string;
+    error: string | null;
+  }) => ResultAsync<WebhookDelivery, ApplicationServiceError>;
+
+  /**
+   * ブックのWebhook配信履歴を取得する
+   */
+  listWebhookDeliveries: (input: {
+    userId: string;
+    bookId: string;
+    limit?: number;
+  }) => ResultAsync<WebhookDelivery[], ApplicationServiceError>;
+
+  /**
+   * ブックの設定を更新する
+   * ブランチにnullを指定した場合はリポジトリのデフォルトブランチを公開する
+   */
+  updateBookSettings: (input: {
+    userId: string;
+    bookId: string;
+    branch: string | null;
+    rootPath?: string | null;
+    ignore?: string[];
+  }) => ResultAsync<Book, ApplicationServiceError>;
+
+  /**
+   * ユーザーのブックに対する権限を取得する
+   * メンバーでない場合はnullを返す
+   */
+  getBookRole: (input: {
+    userId: string;
+    bookId: string;
+  }) => ResultAsync<BookMemberRole | null, ApplicationServiceError>;
+
+  /**
+   * ブックのメンバーを一覧する
+   */
+  listBookMembers: (input: {
+    userId: string;
+    bookId: string;
+  }) => ResultAsync<BookMember[], ApplicationServiceError>;
+
+  /**
+   * Blueskyのハンドルを指定してブックにメンバーを招待する
+   * 既にメンバーの場合は権限を更新する
+   */
+  inviteBookMember: (input: {
+    userId: string;
+    bookId: string;
+    handle: string;
+    role: BookMemberRole;
+  }) => ResultAsync<BookMember, ApplicationServiceError>;
+
+  /**
+   * ブックからメンバーを削除する
+   */
+  removeBookMember: (input: {
+    userId: string;
+    bookId: string;
+    memberId: string;
+  }) => ResultAsync<void, ApplicationServiceError>;
+
+  /**
+   * 旧リポジトリから転送先のブックを取得する
+   */
+  getBookRedirect: (input: {
     owner: string;
     repo: string;
-    installationId: number;
-    commits: GitHubCommit[];
-  }) => ResultAsync<{ synced: number; added: Note[] }, ApplicationServiceError>;
+  }) => ResultAsync<Book, ApplicationServiceError>;
+
+  /**
+   * 名前の変更や移管されたリポジトリのブックをすべて付け替える
+   * 移動先に同じスラッグのブックが残っている場合は削除する
+   * ブックとして登録されていないリポジトリの場合はmovedを空の配列にする
+   */
+  moveBook: (input: {
+    fromOwner: string;
+    fromRepo: string;
+    owner: string;
+    repo: string;
+  }) => ResultAsync<
+    { moved: Book[]; retired: number },
+    ApplicationServiceError
+  >;
+
+  /**
+   * 削除された、またはアプリのアクセスが外されたリポジトリのブックを削除する
+   */
+  retireBooks: (input: {
+    repositories: { owner: string; repo: string }[];
+  }) => ResultAsync<number, ApplicationServiceError>;
 
   /**
    * ノートを同期する
+   * リポジトリに存在しない、または公開でなくなったノートは削除する
    */
   syncNotes: (input: {
     userId: string;
     owner: string;
     repo: string;
-  }) => ResultAsync<{ synced: number }, ApplicationServiceError>;
+    slug?: string;
+  }) => ResultAsync<
+    { created: number; updated: number; removed: number },
+    ApplicationServiceError
+  >;
 
   /**
    * ノート一覧を取得する
@@ -109,24 +320,142 @@ export interface NoteUsecase {
   /**
    * ノートを検索する
    */
-  searchNotes: (
-    input: SearchNotesInput,
-  ) => ResultAsync<
-    { items: (Note & { fullPath: string })[]; count: number },
+  searchNotes: (input: SearchNotesInput) => ResultAsync<
+    {
+      items: (Note & { fullPath: string; snippet: SearchSnippet | null })[];
+      count: number;
+    },
     ApplicationServiceError
   >;
 
   /**
    * ノート情報を取得する
+   * 限定公開のノートは閲覧を許可されたユーザーにのみ返す
    */
   getNote: (input: {
+    handle: string;
+    owner: string;
+    repo: string;
+    slug: string;
     notePath: string;
+    userId?: string | null;
   }) => ResultAsync<Note, ApplicationServiceError>;
 
+  /**
+   * ブックの目次を取得する
+   */
+  getNoteTree: (input: {
+    bookId: string;
+  }) => ResultAsync<NoteTreeNode<NoteTreeEntry>[], ApplicationServiceError>;
+
+  /**
+   * 目次の順序で前後のノートを取得する
+   */
+  getAdjacentNotes: (input: {
+    bookId: string;
+    notePath: string;
+  }) => ResultAsync<
+    { previous: NoteTreeEntry | null; next: NoteTreeEntry | null },
+    ApplicationServiceError
+  >;
+
+  /**
+   * 指定したノートへウィキリンクしているノート一覧を取得する
+   */
+  listBacklinks: (input: {
+    noteId: string;
+  }) => ResultAsync<Note[], ApplicationServiceError>;
+
+  /**
+   * リポジトリ内の画像などのアセットを取得する
+   * ユーザーが閲覧できるノートやブックの説明、プレビューから参照されているアセットのみ取得できる
+   */
+  getAsset: (input: {
+    owner: string;
+    repo: string;
+    slug?: string;
+    path: string;
+    userId: string | null;
+    previewToken?: string;
+  }) => ResultAsync<
+    GitHubAsset & { contentType: string; isPublic: boolean },
+    ApplicationServiceError
+  >;
+
+  /**
+   * ノートのリビジョンを新しい順に取得する
+   */
+  listNoteRevisions: (input: {
+    noteId: string;
+    limit?: number;
+  }) => ResultAsync<NoteRevision[], ApplicationServiceError>;
+
+  /**
+   * ノートのファイルを変更したコミットを新しい順に取得する
+   * ユーザーが閲覧できない、またはブックの公開範囲外のノートは対象にしない
+   */
+  listNoteCommits: (input: {
+    handle: string;
+    owner: string;
+    repo: string;
+    slug: string;
+    notePath: string;
+    userId?: string | null;
+    limit?: number;
+  }) => ResultAsync<GitHubFileCommit[], ApplicationServiceError>;
+
+  /**
+   * 2つのコミット時点のノートのMarkdownを比較する
+   * ユーザーが閲覧できない、またはブックの公開範囲外のノートは対象にしない
+   */
+  diffNoteVersions: (input: {
+    handle: string;
+    owner: string;
+    repo: string;
+    slug: string;
+    notePath: string;
+    userId?: string | null;
+    base: string | null;
+    head: string;
+  }) => ResultAsync<DiffLine[], ApplicationServiceError>;
+
+  /**
+   * ブックのオーナーがノートのプレビューURLを発行する
+   * ブックのルートパスからの相対パスで指定し、非公開のノートも対象にできる
+   */
+  createNotePreview: (input: {
+    userId: string;
+    bookId: string;
+    path: string;
+    expiresIn: number;
+  }) => ResultAsync<
+    { token: string; expiresAt: Date },
+    ApplicationServiceError
+  >;
+
+  /**
+   * プレビューURLのトークンからノートの内容を取得する
+   */
+  getNotePreview: (input: {
+    token: string;
+  }) => ResultAsync<
+    { preview: NotePreview; book: Book; markdown: ParsedMarkdown },
+    ApplicationServiceError
+  >;
+
+  /**
+   * リネームされたノートのリダイレクト先を取得する
+   */
+  getNoteRedirect: (input: {
+    bookId: string;
+    notePath: string;
+  }) => ResultAsync<NoteRedirect, ApplicationServiceError>;
+
   /**
    * ノートを削除する
    */
   deleteNote: (input: {
+    userId: string;
     noteId: string;
   }) => ResultAsync<void, ApplicationServiceError>;
 
@@ -1,14 +1,34 @@
 import { auth } from "@/actions/account";
+import { getBookRole } from "@/actions/note";
+import type { BookMemberRole } from "@/domain/note/models/book-member";
 
 type Props = {
   userId: string;
+  /**
+   * 指定した場合はブックのメンバーにも表示する
+   */
+  bookId?: string;
+  /**
+   * 表示するメンバーの権限
+   * 未指定の場合はすべてのメンバーに表示する
+   */
+  roles?: BookMemberRole[];
   children: React.ReactNode;
 };
 
-export async function ForOwner({ userId, children }: Props) {
+export async function ForOwner({ userId, bookId, roles, children }: Props) {
   const session = await auth();
 
-  if (!session || session.user.id !== userId) {
+  if (!session) {
+    return null;
+  }
+
+  if (bookId) {
+    const role = await getBookRole(bookId);
+    if (!role || (roles && !roles.includes(role))) {
+      return null;
+    }
+  } else if (session.user.id !== userId) {
     return null;
   }
 
@@ -1,26 +1,57 @@
 "use client";
 
 import { addBook } from "@/actions/note";
-import { useTransition } from "react";
+import { useState, useTransition } from "react";
 import { toast } from "sonner";
 
+import { Field } from "@/components/form/Field";
 import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Link, Loader2, PlugZap } from "lucide-react";
 
 type Props = {
   userId: string;
   owner: string;
   repo: string;
-  disabled?: boolean;
+  /**
+   * リポジトリにブックが登録済みかどうか
+   * 登録済みの場合はスラッグを指定して別のブックを追加する
+   */
+  connected?: boolean;
 };
 
-export function AddBook({ userId, owner, repo, disabled }: Props) {
+export function AddBook({ userId, owner, repo, connected }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
   const [isPending, startTransition] = useTransition();
+  const [slug, setSlug] = useState("");
+  const [rootPath, setRootPath] = useState("");
+  const [ignore, setIgnore] = useState("");
 
   const handleClick = () => {
+    setIsOpen(false);
     startTransition(async () => {
       const loading = toast.loading("Loading...");
-      const result = await addBook({ userId, owner, repo });
+      // 未入力の場合はリポジトリの.atmd.ymlの設定を使う
+      const globs = ignore.split("\n").filter((glob) => glob.trim());
+      const result = await addBook({
+        userId,
+        owner,
+        repo,
+        slug: slug.trim(),
+        rootPath: rootPath.trim() || null,
+        ignore: globs.length > 0 ? globs : undefined,
+      });
       toast.dismiss(loading);
 
       if (!result) {
@@ -37,16 +68,84 @@ export function AddBook({ userId, owner, repo, disabled }: Props) {
   };
 
   return (
-    <Button
-      onClick={handleClick}
-      variant="outline"
-      disabled={disabled || isPending}
-      className="cursor-pointer"
-    >
-      {isPending && <Loader2 className="animate-spin" />}
-      {disabled && <Link className="animate-pulse" />}
-      {!disabled && <PlugZap className="size-5" />}
-      {disabled ? "Connected" : "Connect"}
-    </Button>
+    <Dialog open={isOpen} onOpenChange={(open) => setIsOpen(open)}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={isPending}
+          className="cursor-pointer"
+        >
+          {isPending && <Loader2 className="animate-spin" />}
+          {connected && <Link className="animate-pulse" />}
+          {!connected && <PlugZap className="size-5" />}
+          {connected ? "Connected" : "Connect"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Connect {owner}/{repo}
+          </DialogTitle>
+          <DialogDescription>
+            Publish the whole repository or only a directory of it. Leave the
+            fields empty to use the settings in .atmd.yml.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Field>
+          <Label htmlFor="slug">Slug</Label>
+          <Input
+            type="text"
+            name="slug"
+            id="slug"
+            placeholder={connected ? "api-docs" : "Optional"}
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {connected
+              ? "This repository already has a book. Enter a slug to add another book."
+              : "Leave empty to publish the book at the repository URL."}
+          </p>
+        </Field>
+
+        <Field>
+          <Label htmlFor="rootPath">Root path</Label>
+          <Input
+            type="text"
+            name="rootPath"
+            id="rootPath"
+            placeholder="docs"
+            value={rootPath}
+            onChange={(e) => setRootPath(e.target.value)}
+          />
+        </Field>
+
+        <Field>
+          <Label htmlFor="ignore">Ignore</Label>
+          <Textarea
+            name="ignore"
+            id="ignore"
+            placeholder={"drafts/\n**/_*.md"}
+            value={ignore}
+            onChange={(e) => setIgnore(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            One glob per line, relative to the root path.
+          </p>
+        </Field>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={handleClick}
+            disabled={connected && !slug.trim()}
+            className="cursor-pointer"
+          >
+            Connect
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
   );
 }
@@ -0,0 +1,43 @@
+import { getAdjacentNotes } from "@/actions/note";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+
+type Props = {
+  bookId: string;
+  notePath: string;
+  basePath: string;
+};
+
+export async function AdjacentNotes({ bookId, notePath, basePath }: Props) {
+  const { previous, next } = await getAdjacentNotes(bookId, notePath);
+
+  if (!previous && !next) {
+    return null;
+  }
+
+  return (
+    <nav className="grid grid-cols-2 gap-4 pt-(--spacing-layout-sm) border-t">
+      {previous ? (
+        <Link
+          href={`${basePath}/${encodeURIComponent(previous.path)}`}
+          className="flex items-center gap-2 hover:underline underline-offset-4"
+        >
+          <ChevronLeft className="shrink-0" />
+          {previous.title}
+        </Link>
+      ) : (
+        <span />
+      )}
+      {next && (
+        <Link
+          href={`${basePath}/${encodeURIComponent(next.path)}`}
+          className="flex items-center justify-end gap-2 text-right hover:underline underline-offset-4"
+        >
+          {next.title}
+          <ChevronRight className="shrink-0" />
+        </Link>
+      )}
+    </nav>
+  );
+}
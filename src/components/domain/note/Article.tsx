@@ -1,4 +1,4 @@
-import xss, { escapeAttrValue } from "xss";
+import xss, { escapeAttrValue, getDefaultWhiteList } from "xss";
 
 type Props = {
   text: string;
@@ -6,10 +6,18 @@ type Props = {
 
 export function Article({ text }: Props) {
   const sanitized = xss(text, {
-    onIgnoreTagAttr: (_tag, name, value) => {
+    // コードブロックのコピーボタンを残す
+    whiteList: {
+      ...getDefaultWhiteList(),
+      button: ["type", "aria-label"],
+    },
+    onIgnoreTagAttr: (tag, name, value) => {
       if (name === "class") {
         return `${name}="${escapeAttrValue(value)}"`;
       }
+      if (name === "id" && /^h[1-6]$/.test(tag)) {
+        return `${name}="${escapeAttrValue(value)}"`;
+      }
     },
   });
 
@@ -1,4 +1,5 @@
 import { getBook } from "@/actions/note";
+import { getBookPath } from "@/domain/note/models/book";
 
 import { Button } from "@/components/ui/button";
 import { ChevronLeft } from "lucide-react";
@@ -8,14 +9,15 @@ type Props = {
   handle: string;
   owner: string;
   repo: string;
+  slug: string;
 };
 
-export async function BackToBook({ handle, owner, repo }: Props) {
-  const book = await getBook(owner, repo);
+export async function BackToBook({ handle, owner, repo, slug }: Props) {
+  const book = await getBook(owner, repo, slug);
 
   return (
     <Button asChild variant="ghost" className="!pl-0 cursor-pointer">
-      <Link href={`/${handle}/${owner}/${repo}`}>
+      <Link href={getBookPath(handle, { owner, repo, slug })}>
         <ChevronLeft />
         {book ? book.details.name : ""}
       </Link>
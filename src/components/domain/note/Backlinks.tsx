@@ -0,0 +1,34 @@
+import { listBacklinks } from "@/actions/note";
+
+import Link from "next/link";
+
+type Props = {
+  noteId: string;
+  basePath: string;
+};
+
+export async function Backlinks({ noteId, basePath }: Props) {
+  const notes = await listBacklinks(noteId);
+
+  if (notes.length < 1) {
+    return null;
+  }
+
+  return (
+    <section className="pt-(--spacing-layout-sm) border-t">
+      <h2 className="text-lg font-bold">Linked from</h2>
+      <ul className="mt-2 space-y-1">
+        {notes.map((note) => (
+          <li key={note.id}>
+            <Link
+              href={`${basePath}/${encodeURIComponent(note.path)}`}
+              className="underline underline-offset-4 hover:text-muted-foreground"
+            >
+              {note.title}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
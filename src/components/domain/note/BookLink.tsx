@@ -1,4 +1,4 @@
-import type { Book } from "@/domain/note/models/book";
+import { type Book, getBookPath } from "@/domain/note/models/book";
 import { SyncStatusCode } from "@/domain/note/models/sync-status";
 import { format } from "date-fns";
 
@@ -10,13 +10,13 @@ import { BookMenu } from "./BookMenu";
 
 type Props = {
   book: Book;
-  basePath: string;
+  handle: string;
 };
 
-export function BookLink({ book, basePath }: Props) {
+export function BookLink({ book, handle }: Props) {
   return (
     <div key={book.id} className="">
-      <Link href={`${basePath}/${book.owner}/${book.repo}`}>
+      <Link href={getBookPath(handle, book)}>
         <h2 className="text-xl md:text-2xl font-bold">{book.details.name}</h2>
 
         <dl className="flex items-center gap-2 mt-1 text-sm text-muted-foreground">
@@ -28,6 +28,9 @@ export function BookLink({ book, basePath }: Props) {
             {book.syncStatus.status === SyncStatusCode.ERROR && (
               <Badge variant="destructive">Error</Badge>
             )}
+            {book.syncStatus.status === SyncStatusCode.SYNCING && (
+              <Badge variant="secondary">Syncing</Badge>
+            )}
           </dd>
         </dl>
 
@@ -40,7 +43,7 @@ export function BookLink({ book, basePath }: Props) {
       </Link>
 
       <Suspense>
-        <ForOwner userId={book.userId}>
+        <ForOwner userId={book.userId} bookId={book.id}>
           <div className="mt-3">
             <BookMenu book={book} />
           </div>
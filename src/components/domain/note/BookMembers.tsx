@@ -0,0 +1,187 @@
+"use client";
+
+import {
+  inviteBookMember,
+  listBookMembers,
+  removeBookMember,
+} from "@/actions/note";
+import type { Book } from "@/domain/note/models/book";
+import {
+  type BookMember,
+  BookMemberRole,
+} from "@/domain/note/models/book-member";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+import { Field } from "@/components/form/Field";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, UserMinus, Users } from "lucide-react";
+
+type Props = {
+  book: Book;
+  userId: string;
+  /**
+   * メンバーを招待・削除できるかどうか
+   */
+  canManage: boolean;
+};
+
+export function BookMembers({ book, userId, canManage }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [members, setMembers] = useState<BookMember[] | null>(null);
+  const [handle, setHandle] = useState("");
+  const [role, setRole] = useState<BookMemberRole>(BookMemberRole.EDITOR);
+
+  const open = async (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setMembers(null);
+      setMembers(await listBookMembers(book.id));
+    }
+  };
+
+  const invite = () => {
+    startTransition(async () => {
+      const member = await inviteBookMember(book.id, handle, role);
+
+      if (!member) {
+        toast.error("Error", {
+          description:
+            "Failed to invite the user. Make sure they have logged in to @md.",
+        });
+        return;
+      }
+
+      setHandle("");
+      setMembers(await listBookMembers(book.id));
+      toast.success("Success", {
+        description: `@${member.handle} has been invited as ${member.role}.`,
+      });
+    });
+  };
+
+  const remove = (member: BookMember) => {
+    startTransition(async () => {
+      const result = await removeBookMember(book.id, member.userId);
+
+      if (!result) {
+        toast.error("Error", {
+          description: "Failed to remove the member.",
+        });
+        return;
+      }
+
+      if (member.userId === userId) {
+        setIsOpen(false);
+        return;
+      }
+
+      setMembers(await listBookMembers(book.id));
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="cursor-pointer">
+          <Users />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Members</DialogTitle>
+          <DialogDescription>
+            Members can sync notes and change the settings of this book. Only
+            owners can invite members and disconnect the book.
+          </DialogDescription>
+        </DialogHeader>
+
+        {members === null && (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        )}
+
+        {members && members.length > 0 && (
+          <ul className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+            {members.map((member) => (
+              <li
+                key={member.userId}
+                className="flex items-center gap-2 text-sm"
+              >
+                <span className="truncate">@{member.handle}</span>
+                <Badge variant="secondary">{member.role}</Badge>
+                {member.userId !== book.userId &&
+                  (canManage || member.userId === userId) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(member)}
+                      disabled={isPending}
+                      className="ml-auto cursor-pointer"
+                    >
+                      <UserMinus />
+                    </Button>
+                  )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canManage && (
+          <div className="flex items-end gap-2">
+            <Field>
+              <Label htmlFor="handle">Bluesky handle</Label>
+              <Input
+                type="text"
+                name="handle"
+                id="handle"
+                placeholder="alice.bsky.social"
+                value={handle}
+                onChange={(e) => setHandle(e.target.value)}
+              />
+            </Field>
+            <Select
+              value={role}
+              onValueChange={(value) => setRole(value as BookMemberRole)}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BookMemberRole.EDITOR}>Editor</SelectItem>
+                <SelectItem value={BookMemberRole.OWNER}>Owner</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              onClick={invite}
+              disabled={isPending || !handle.trim()}
+              className="cursor-pointer"
+            >
+              {isPending && <Loader2 className="animate-spin" />}
+              Invite
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
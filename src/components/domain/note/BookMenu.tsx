@@ -1,18 +1,44 @@
+import { auth } from "@/actions/account";
+import { getBookRole } from "@/actions/note";
 import type { Book } from "@/domain/note/models/book";
+import { BookMemberRole } from "@/domain/note/models/book-member";
 
+import { BookMembers } from "./BookMembers";
+import { BookSettings } from "./BookSettings";
 import { Disconnect } from "./Disconnect";
+import { PreviewLink } from "./PreviewLink";
 import { Sync } from "./Sync";
+import { WebhookDeliveries } from "./WebhookDeliveries";
 
 type Props = {
   book: Book;
   redirectPath?: string;
 };
 
-export function BookMenu({ book, redirectPath }: Props) {
+export async function BookMenu({ book, redirectPath }: Props) {
+  const session = await auth();
+  const role = await getBookRole(book.id);
+
+  if (!session || !role) {
+    return null;
+  }
+
   return (
     <div className="flex items-center gap-2">
       <Sync book={book} />
-      <Disconnect book={book} redirectPath={redirectPath} />
+      <WebhookDeliveries book={book} />
+      <BookSettings book={book} />
+      <BookMembers
+        book={book}
+        userId={session.user.id}
+        canManage={role === BookMemberRole.OWNER}
+      />
+      {role === BookMemberRole.OWNER && (
+        <>
+          <PreviewLink book={book} />
+          <Disconnect book={book} redirectPath={redirectPath} />
+        </>
+      )}
     </div>
   );
 }
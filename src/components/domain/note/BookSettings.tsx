@@ -0,0 +1,141 @@
+"use client";
+
+import { updateBookSettings } from "@/actions/note";
+import type { Book } from "@/domain/note/models/book";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+import { Field } from "@/components/form/Field";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Settings } from "lucide-react";
+
+type Props = {
+  book: Book;
+};
+
+export function BookSettings({ book }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [branch, setBranch] = useState(book.branch || "");
+  const [rootPath, setRootPath] = useState(book.rootPath || "");
+  const [ignore, setIgnore] = useState(book.ignore.join("\n"));
+
+  const open = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setBranch(book.branch || "");
+      setRootPath(book.rootPath || "");
+      setIgnore(book.ignore.join("\n"));
+    }
+  };
+
+  const save = () => {
+    startTransition(async () => {
+      const result = await updateBookSettings(book.id, {
+        branch: branch.trim() || null,
+        rootPath: rootPath.trim() || null,
+        ignore: ignore.split("\n").filter((glob) => glob.trim()),
+      });
+
+      if (!result) {
+        toast.error("Error", {
+          description: "Failed to update settings.",
+        });
+        return;
+      }
+
+      setIsOpen(false);
+      toast.success("Success", {
+        description: "Settings have been updated. Sync notes to apply them.",
+      });
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="cursor-pointer">
+          <Settings />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Configure how notes are published from the GitHub repository.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Field>
+          <Label htmlFor="branch">Branch</Label>
+          <Input
+            type="text"
+            name="branch"
+            id="branch"
+            placeholder="Default branch"
+            value={branch}
+            onChange={(e) => setBranch(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Only pushes to this branch are synced. Leave empty to use the
+            repository's default branch.
+          </p>
+        </Field>
+
+        <Field>
+          <Label htmlFor="rootPath">Root path</Label>
+          <Input
+            type="text"
+            name="rootPath"
+            id="rootPath"
+            placeholder="Repository root"
+            value={rootPath}
+            onChange={(e) => setRootPath(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Only notes in this directory are published, and its README.md is
+            used as the book description.
+          </p>
+        </Field>
+
+        <Field>
+          <Label htmlFor="ignore">Ignore</Label>
+          <Textarea
+            name="ignore"
+            id="ignore"
+            placeholder={"drafts/\n**/_*.md"}
+            value={ignore}
+            onChange={(e) => setIgnore(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            One glob per line, relative to the root path.
+          </p>
+        </Field>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={save}
+            disabled={isPending}
+            className="cursor-pointer"
+          >
+            {isPending && <Loader2 className="animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
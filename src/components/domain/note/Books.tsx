@@ -18,7 +18,7 @@ export async function Books({ userId, handle }: Props) {
   return (
     <div className="flex flex-col gap-10">
       {books.map(async (book) => {
-        return <BookLink key={book.id} book={book} basePath={`/${handle}`} />;
+        return <BookLink key={book.id} book={book} handle={handle} />;
       })}
 
       {books.length === 0 && (
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect } from "react";
+import { toast } from "sonner";
+
+/**
+ * 記事内のコードブロックのコピーボタンを有効にする
+ * 削除行を除いたコードをクリップボードにコピーする
+ */
+export function CopyCode() {
+  useEffect(() => {
+    const handleClick = async (event: MouseEvent) => {
+      const button =
+        event.target instanceof Element
+          ? event.target.closest(".code-block-copy")
+          : null;
+      const code = button?.parentElement?.querySelector("code");
+      if (!code) {
+        return;
+      }
+
+      const text = Array.from(code.querySelectorAll(".line"))
+        .filter((line) => !line.classList.contains("removed"))
+        .map((line) => line.textContent)
+        .join("\n");
+      await navigator.clipboard.writeText(text);
+      toast.success("Copied", {
+        description: "The code has been copied to the clipboard.",
+      });
+    };
+
+    document.addEventListener("click", handleClick);
+    return () => document.removeEventListener("click", handleClick);
+  }, []);
+
+  return null;
+}
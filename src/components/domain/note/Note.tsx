@@ -1,3 +1,4 @@
+import type { SearchSnippet } from "@/domain/note/dtos";
 import type { Note as NoteModel } from "@/domain/note/models/note";
 import { format } from "date-fns";
 
@@ -11,7 +12,7 @@ import { NoteUser, NoteUserSkeleton } from "./NoteUser";
 
 type Props = {
   basePath?: string;
-  note: NoteModel & { fullPath?: string };
+  note: NoteModel & { fullPath?: string; snippet?: SearchSnippet | null };
   showUser?: boolean;
 };
 
@@ -31,15 +32,39 @@ export function Note({ note, basePath, showUser }: Props) {
 
         {note.createdAt && (
           <p className="mt-1 text-sm text-muted-foreground">
-            {format(note.createdAt, "yyyy-MM-dd HH:mm")}
+            {format(note.publishedAt || note.createdAt, "yyyy-MM-dd HH:mm")}
           </p>
         )}
 
         <div className="relative mt-2">
-          <p>
-            {note.body.slice(0, 160).replaceAll("#", "")}
-            {note.body.length > 160 && " ..."}
-          </p>
+          {note.snippet ? (
+            <p>
+              {note.snippet.map((segment, i, snippet) => {
+                const Segment = segment.highlight ? "mark" : "span";
+                // 空の区切りは含まれないため、抜粋内の開始位置で区切りを識別できる
+                const offset = snippet
+                  .slice(0, i)
+                  .reduce((sum, { text }) => sum + text.length, 0);
+                return (
+                  <Segment
+                    key={offset}
+                    className={
+                      segment.highlight
+                        ? "bg-yellow-200 text-inherit dark:bg-yellow-800"
+                        : undefined
+                    }
+                  >
+                    {segment.text}
+                  </Segment>
+                );
+              })}
+            </p>
+          ) : (
+            <p>
+              {note.description || note.body.slice(0, 160).replaceAll("#", "")}
+              {!note.description && note.body.length > 160 && " ..."}
+            </p>
+          )}
         </div>
 
         <div className="mt-3">
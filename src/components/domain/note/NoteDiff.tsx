@@ -0,0 +1,49 @@
+import { type DiffLine, DiffLineType } from "@/domain/note/services/diff-lines";
+import { cn } from "@/lib/utils";
+
+type Props = {
+  lines: DiffLine[];
+};
+
+const markers = {
+  [DiffLineType.ADDED]: "+",
+  [DiffLineType.REMOVED]: "-",
+  [DiffLineType.UNCHANGED]: " ",
+};
+
+export function NoteDiff({ lines }: Props) {
+  if (lines.every((line) => line.type === DiffLineType.UNCHANGED)) {
+    return <p className="text-sm text-muted-foreground">No changes.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-md border font-mono text-sm">
+      <table className="w-full border-collapse">
+        <tbody>
+          {lines.map((line) => (
+            <tr
+              key={`${line.oldNumber}-${line.newNumber}`}
+              className={cn(
+                line.type === DiffLineType.ADDED && "bg-green-500/10",
+                line.type === DiffLineType.REMOVED && "bg-red-500/10",
+              )}
+            >
+              <td className="w-px px-2 text-right text-muted-foreground select-none">
+                {line.oldNumber}
+              </td>
+              <td className="w-px px-2 text-right text-muted-foreground select-none">
+                {line.newNumber}
+              </td>
+              <td className="w-px px-1 text-muted-foreground select-none">
+                {markers[line.type]}
+              </td>
+              <td className="px-2 whitespace-pre-wrap break-all">
+                {line.text}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
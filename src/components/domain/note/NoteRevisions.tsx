@@ -0,0 +1,76 @@
+import { listNoteRevisions } from "@/actions/note";
+import type { NoteRevision } from "@/domain/note/models/note-revision";
+import { format } from "date-fns";
+
+type Props = {
+  noteId: string;
+};
+
+function Author({ revision }: { revision: NoteRevision }) {
+  if (revision.authorLogin) {
+    return (
+      <a
+        href={`https://github.com/${revision.authorLogin}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline underline-offset-4 hover:text-muted-foreground"
+      >
+        {revision.authorName || revision.authorLogin}
+      </a>
+    );
+  }
+
+  return <>{revision.authorName || "unknown"}</>;
+}
+
+export async function LastEditedBy({ noteId }: Props) {
+  const [revision] = await listNoteRevisions(noteId);
+
+  if (!revision) {
+    return null;
+  }
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      Last edited by <Author revision={revision} />
+    </p>
+  );
+}
+
+export async function NoteRevisions({ noteId }: Props) {
+  const revisions = await listNoteRevisions(noteId);
+
+  if (revisions.length < 1) {
+    return null;
+  }
+
+  return (
+    <section className="pt-(--spacing-layout-sm) border-t">
+      <h2 className="text-lg font-bold">History</h2>
+      <ul className="mt-2 space-y-1 text-sm">
+        {revisions.map((revision) => (
+          <li
+            key={revision.commitSha}
+            className="flex items-center gap-2 min-w-0"
+          >
+            <span className="text-muted-foreground shrink-0">
+              {format(revision.committedAt, "yyyy-MM-dd HH:mm")}
+            </span>
+            <a
+              href={revision.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate underline underline-offset-4 hover:text-muted-foreground"
+            >
+              {revision.message.split("\n")[0] ||
+                revision.commitSha.slice(0, 7)}
+            </a>
+            <span className="text-muted-foreground shrink-0">
+              <Author revision={revision} />
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+import { getNoteTree } from "@/actions/note";
+import type { NoteTreeEntry } from "@/application/note/usecase";
+import type { NoteTreeNode } from "@/domain/note/services/build-note-tree";
+
+import { Folder } from "lucide-react";
+import Link from "next/link";
+
+type Props = {
+  bookId: string;
+  basePath: string;
+};
+
+export async function NoteTree({ bookId, basePath }: Props) {
+  const tree = await getNoteTree(bookId);
+
+  return <NoteTreeList nodes={tree} basePath={basePath} />;
+}
+
+type NoteTreeListProps = {
+  nodes: NoteTreeNode<NoteTreeEntry>[];
+  basePath: string;
+};
+
+function NoteTreeList({ nodes, basePath }: NoteTreeListProps) {
+  return (
+    <ul className="flex flex-col gap-2 [&_ul]:mt-2 [&_ul]:pl-5 [&_ul]:border-l">
+      {nodes.map((node) => (
+        <li key={node.note?.id || `folder:${node.name}`}>
+          {node.note ? (
+            <Link
+              href={`${basePath}/${encodeURIComponent(node.note.path)}`}
+              className="hover:underline underline-offset-4"
+            >
+              {node.note.title}
+            </Link>
+          ) : (
+            <span className="flex items-center gap-2 text-muted-foreground">
+              <Folder className="size-4" />
+              {node.name}
+            </span>
+          )}
+          {node.children.length > 0 && (
+            <NoteTreeList nodes={node.children} basePath={basePath} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -5,19 +5,25 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Info } from "lucide-react";
 import { Note } from "./Note";
+import { NoteTree } from "./NoteTree";
 
 type Props = {
   bookId: string;
   basePath: string;
   page: number;
+  view?: "list" | "tree";
 };
 
 const limit = Number.parseInt(process.env.NEXT_PUBLIC_PAGINATION_LIMIT, 10);
 
-export async function Notes({ bookId, basePath, page }: Props) {
+export async function Notes({ bookId, basePath, page, view }: Props) {
+  if (view === "tree") {
+    return <NoteTree bookId={bookId} basePath={basePath} />;
+  }
+
   const { items, count } = await listNotes(bookId, {
     order: "desc",
-    orderBy: "createdAt",
+    orderBy: "publishedAt",
     limit,
     page,
   });
@@ -0,0 +1,178 @@
+"use client";
+
+import { createNotePreview } from "@/actions/note";
+import type { Book } from "@/domain/note/models/book";
+import { format } from "date-fns";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+import { Field } from "@/components/form/Field";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Eye, Loader2 } from "lucide-react";
+
+const expirations = [
+  { label: "1 hour", value: 60 * 60 },
+  { label: "1 day", value: 60 * 60 * 24 },
+  { label: "7 days", value: 60 * 60 * 24 * 7 },
+  { label: "30 days", value: 60 * 60 * 24 * 30 },
+];
+
+type Props = {
+  book: Book;
+};
+
+export function PreviewLink({ book }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [path, setPath] = useState("");
+  const [expiresIn, setExpiresIn] = useState(String(expirations[1].value));
+  const [link, setLink] = useState<{ url: string; expiresAt: Date } | null>(
+    null,
+  );
+
+  const open = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setLink(null);
+    }
+  };
+
+  const create = () => {
+    startTransition(async () => {
+      const result = await createNotePreview(
+        book.id,
+        path,
+        Number.parseInt(expiresIn, 10),
+      );
+
+      if (!result) {
+        toast.error("Error", {
+          description: "Failed to create a preview link.",
+        });
+        return;
+      }
+
+      setLink({
+        url: `${window.location.origin}/preview/${encodeURIComponent(result.token)}`,
+        expiresAt: result.expiresAt,
+      });
+    });
+  };
+
+  const copy = async () => {
+    if (!link) {
+      return;
+    }
+    await navigator.clipboard.writeText(link.url);
+    toast.success("Copied", {
+      description: "The preview link has been copied to the clipboard.",
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="cursor-pointer">
+          <Eye />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Preview link</DialogTitle>
+          <DialogDescription>
+            Share a note with a reviewer before publishing it. Anyone with the
+            link can read the note until it expires, even if it is private.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Field>
+          <Label htmlFor="previewPath">Path</Label>
+          <Input
+            type="text"
+            name="previewPath"
+            id="previewPath"
+            placeholder="drafts/new-post.md"
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Relative to the root path of this book.
+          </p>
+        </Field>
+
+        <Field>
+          <Label htmlFor="expiresIn">Expires in</Label>
+          <Select value={expiresIn} onValueChange={setExpiresIn}>
+            <SelectTrigger id="expiresIn" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {expirations.map(({ label, value }) => (
+                <SelectItem key={value} value={String(value)}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+
+        {link && (
+          <Field>
+            <Label htmlFor="previewUrl">Link</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="text"
+                id="previewUrl"
+                value={link.url}
+                readOnly
+                onFocus={(e) => e.target.select()}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={copy}
+                className="cursor-pointer"
+              >
+                <Copy />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Expires at {format(link.expiresAt, "yyyy-MM-dd HH:mm")}
+            </p>
+          </Field>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={create}
+            disabled={isPending || !path.trim()}
+            className="cursor-pointer"
+          >
+            {isPending && <Loader2 className="animate-spin" />}
+            Create link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -122,7 +122,7 @@ export function Repositories({ userId, owners, usedRepositories }: Props) {
                 userId={userId}
                 owner={repository.owner}
                 repo={repository.name}
-                disabled={usedRepositories.includes(
+                connected={usedRepositories.includes(
                   `${repository.owner}/${repository.name}`,
                 )}
               />
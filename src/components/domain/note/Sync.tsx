@@ -27,7 +27,7 @@ export function Sync({ book }: Props) {
   const [isOpen, setIsOpen] = useState(false);
   const sync = async () => {
     setIsOpen(false);
-    let result = false;
+    let result: Awaited<ReturnType<typeof syncNotes>> = null;
     // const limit = sub(new Date(), { hours: 1 });
     const limit = new Date();
     if (
@@ -35,7 +35,9 @@ export function Sync({ book }: Props) {
       !book.syncStatus.lastSyncedAt ||
       book.syncStatus.lastSyncedAt < limit
     ) {
-      result = await syncNotes(book.owner, book.repo);
+      const loading = toast.loading("Syncing notes...");
+      result = await syncNotes(book.owner, book.repo, book.slug);
+      toast.dismiss(loading);
     }
 
     if (!result) {
@@ -46,7 +48,7 @@ export function Sync({ book }: Props) {
     }
 
     toast.success("Success", {
-      description: "Syncing notes...",
+      description: `${result.created} created, ${result.updated} updated, ${result.removed} removed.`,
     });
   };
 
@@ -62,7 +64,8 @@ export function Sync({ book }: Props) {
           <DialogTitle>Sync Notes</DialogTitle>
           <DialogDescription>
             Sync notes with GitHub repository. Existing notes with the same path
-            will be overwritten.
+            will be overwritten, and notes that no longer exist or are no longer
+            public will be removed.
           </DialogDescription>
         </DialogHeader>
         <DialogFooter>
@@ -0,0 +1,32 @@
+import type { Heading } from "@/lib/markdown";
+
+type Props = {
+  headings: Heading[];
+};
+
+export function TableOfContents({ headings }: Props) {
+  const minDepth = Math.min(...headings.map((heading) => heading.depth));
+
+  return (
+    <nav className="sticky top-(--spacing-layout-sm) max-h-[calc(100vh-var(--spacing-layout-md))] overflow-y-auto text-sm">
+      <p className="font-bold">Contents</p>
+      <ul className="mt-2 flex flex-col gap-1 border-l">
+        {headings.map((heading) => (
+          <li
+            key={heading.id}
+            style={{
+              paddingLeft: `${(heading.depth - minDepth + 1) * 0.75}rem`,
+            }}
+          >
+            <a
+              href={`#${heading.id}`}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { listWebhookDeliveries } from "@/actions/note";
+import type { Book } from "@/domain/note/models/book";
+import {
+  type WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "@/domain/note/models/webhook-delivery";
+import { format } from "date-fns";
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Webhook } from "lucide-react";
+
+type Props = {
+  book: Book;
+};
+
+export function WebhookDeliveries({ book }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+
+  const open = async (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setDeliveries(null);
+      setDeliveries(await listWebhookDeliveries(book.id));
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="cursor-pointer">
+          <Webhook />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Webhook Deliveries</DialogTitle>
+          <DialogDescription>
+            Recent push events received from the GitHub repository.
+          </DialogDescription>
+        </DialogHeader>
+
+        {deliveries === null && (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        )}
+
+        {deliveries?.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            There are no deliveries yet.
+          </p>
+        )}
+
+        {deliveries && deliveries.length > 0 && (
+          <ul className="flex flex-col gap-3 max-h-96 overflow-y-auto">
+            {deliveries.map((delivery) => (
+              <li key={delivery.id} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground">
+                    {format(delivery.createdAt, "yyyy-MM-dd HH:mm:ss")}
+                  </span>
+                  <span>{delivery.event}</span>
+                  <Badge
+                    variant={
+                      delivery.status === WebhookDeliveryStatus.FAILED
+                        ? "destructive"
+                        : "secondary"
+                    }
+                  >
+                    {delivery.status}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {delivery.id}
+                </p>
+                {delivery.error && (
+                  <p className="text-xs text-destructive">{delivery.error}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,7 +3,9 @@
 import { useRouter, useSearchParams } from "next/navigation";
 import { useState } from "react";
 
+import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { parseSearchQuery } from "@/domain/note/services/parse-search-query";
 
 export function QueryInput() {
   const router = useRouter();
@@ -12,28 +14,50 @@ export function QueryInput() {
   const query = params.query || "";
 
   const [timer, setTimer] = useState<NodeJS.Timeout | null>(null);
+  const [value, setValue] = useState(query);
+
+  const { phrases, tags, books } = parseSearchQuery(value);
+  const filters = new Set([
+    ...phrases.map((phrase) => `"${phrase}"`),
+    ...tags.map((tag) => `#${tag}`),
+    ...books.map((book) => `book: ${book}`),
+  ]);
 
   return (
-    <Input
-      type="text"
-      placeholder="Search notes..."
-      className="w-full"
-      defaultValue={query}
-      onChange={(e) => {
-        if (timer) {
-          clearTimeout(timer);
-          setTimer(null);
-        }
-
-        setTimer(
-          setTimeout(() => {
-            params.query = e.target.value;
-            params.page = "1";
-            const searchParams = new URLSearchParams(params);
-            router.replace(`?${searchParams.toString()}`);
-          }, 500),
-        );
-      }}
-    />
+    <>
+      <Input
+        type="text"
+        placeholder='Search notes... ("phrase", tag:name, book:owner/repo)'
+        className="w-full"
+        defaultValue={query}
+        onChange={(e) => {
+          setValue(e.target.value);
+
+          if (timer) {
+            clearTimeout(timer);
+            setTimer(null);
+          }
+
+          setTimer(
+            setTimeout(() => {
+              params.query = e.target.value;
+              params.page = "1";
+              const searchParams = new URLSearchParams(params);
+              router.replace(`?${searchParams.toString()}`);
+            }, 500),
+          );
+        }}
+      />
+
+      {filters.size > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {[...filters].map((filter) => (
+            <Badge key={filter} variant="secondary">
+              {filter}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </>
   );
 }
@@ -0,0 +1,15 @@
+import type { ExternalServiceError } from "@/domain/types/error";
+import type { ResultAsync } from "neverthrow";
+
+/**
+ * Blueskyのソーシャルグラフアダプターのインターフェース
+ */
+export interface BlueskyGraphProvider {
+  /**
+   * actorがsubjectをフォローしているかどうかを取得する
+   */
+  isFollowing(
+    actor: string,
+    subject: string,
+  ): ResultAsync<boolean, ExternalServiceError>;
+}
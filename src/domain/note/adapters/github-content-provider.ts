@@ -4,7 +4,14 @@ import type { PaginationParams } from "@/domain/types/pagination";
  * GitHub連携アダプターのインターフェース
  */
 import type { ResultAsync } from "neverthrow";
-import type { GitHubRepository } from "../dtos";
+import type {
+  GitHubAsset,
+  GitHubFileChange,
+  GitHubFileCommit,
+  GitHubFileDates,
+  GitHubRepository,
+  GitHubTree,
+} from "../dtos";
 
 /**
  * GitHub連携アダプターのインターフェース
@@ -36,12 +43,14 @@ export interface GitHubContentProvider {
 
   /**
    * リポジトリの特定パスのコンテンツを取得する
+   * refを省略した場合はデフォルトブランチから取得する
    */
   getContent(
     accessToken: string,
     owner: string,
     repo: string,
     path: string,
+    ref?: string,
   ): ResultAsync<string, ExternalServiceError>;
 
   /**
@@ -52,8 +61,28 @@ export interface GitHubContentProvider {
     owner: string,
     repo: string,
     path: string,
+    ref?: string,
   ): ResultAsync<string, ExternalServiceError>;
 
+  /**
+   * リポジトリの特定パスのアセットをバイナリのまま取得する
+   */
+  getAssetByInstallation(
+    installationId: number,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): ResultAsync<GitHubAsset, ExternalServiceError>;
+
+  /**
+   * リポジトリにインストールされたGitHub AppのインストールIDを取得する
+   */
+  getInstallationId(
+    owner: string,
+    repo: string,
+  ): ResultAsync<number, ExternalServiceError>;
+
   /**
    * リポジトリ内のパス一覧を取得する
    */
@@ -61,8 +90,65 @@ export interface GitHubContentProvider {
     accessToken: string,
     owner: string,
     repo: string,
+    ref?: string,
   ): ResultAsync<string[], ExternalServiceError>;
 
+  /**
+   * リポジトリのツリーを取得する
+   * refを省略した場合はHEADのツリーを取得する
+   */
+  getTree(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    ref?: string,
+  ): ResultAsync<GitHubTree, ExternalServiceError>;
+
+  /**
+   * 指定したBlob SHAのコンテンツを取得する
+   */
+  getBlob(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    sha: string,
+  ): ResultAsync<string, ExternalServiceError>;
+
+  /**
+   * 2つのコミット間のファイル変更一覧を取得する
+   */
+  compareCommits(
+    installationId: number,
+    owner: string,
+    repo: string,
+    base: string,
+    head: string,
+  ): ResultAsync<GitHubFileChange[], ExternalServiceError>;
+
+  /**
+   * 指定したパスのファイルを変更したコミット一覧を新しい順に取得する
+   * refを省略した場合はデフォルトブランチから辿る
+   */
+  listCommits(
+    installationId: number,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+    limit?: number,
+  ): ResultAsync<GitHubFileCommit[], ExternalServiceError>;
+
+  /**
+   * 指定したパスのファイルを最初と最後に変更したコミットの日時を取得する
+   */
+  getFileDates(
+    installationId: number,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): ResultAsync<GitHubFileDates, ExternalServiceError>;
+
   /**
    * Webhookを設定する
    */
@@ -72,6 +158,17 @@ export interface GitHubContentProvider {
     repo: string,
   ): ResultAsync<number, ExternalServiceError>;
 
+  /**
+   * Webhookの設定を現在のURL、シークレット、イベントに更新する
+   * Webhookが削除されている場合はfalseを返す
+   */
+  updateWebhook(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    webhookId: number,
+  ): ResultAsync<boolean, ExternalServiceError>;
+
   deleteWebhook(
     accessToken: string,
     owner: string,
@@ -79,5 +176,8 @@ export interface GitHubContentProvider {
     webhookId: number,
   ): ResultAsync<void, ExternalServiceError>;
 
-  validateWebhook(secret: string): boolean;
+  /**
+   * Webhookの署名（X-Hub-Signature-256）をリクエストボディに対して検証する
+   */
+  validateWebhook(payload: string, signature: string): boolean;
 }
@@ -1 +1,3 @@
 export * from "./github-content-provider";
+export * from "./bluesky-graph-provider";
+export * from "./preview-token-provider";
@@ -0,0 +1,19 @@
+import type { ExternalServiceError } from "@/domain/types/error";
+import type { ResultAsync } from "neverthrow";
+import type { NotePreview } from "../dtos/note-preview";
+
+/**
+ * ノートのプレビューURLのトークンを扱うアダプターのインターフェース
+ */
+export interface PreviewTokenProvider {
+  /**
+   * プレビューの内容に署名したトークンを発行する
+   */
+  sign(preview: NotePreview): ResultAsync<string, ExternalServiceError>;
+
+  /**
+   * トークンを検証してプレビューの内容を取り出す
+   * 改ざんされたトークンや期限切れのトークンはエラーとする
+   */
+  verify(token: string): ResultAsync<NotePreview, ExternalServiceError>;
+}
@@ -0,0 +1,17 @@
+/**
+ * リポジトリの設定ファイル(.atmd.yml)のDTO
+ */
+import { z } from "zod";
+
+/**
+ * 設定ファイルのZodスキーマ
+ */
+export const bookConfigSchema = z.object({
+  rootPath: z.string().nonempty().nullable(),
+  ignore: z.array(z.string().nonempty()),
+});
+
+/**
+ * 設定ファイルの型定義
+ */
+export type BookConfig = z.infer<typeof bookConfigSchema>;
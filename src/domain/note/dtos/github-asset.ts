@@ -0,0 +1,11 @@
+/**
+ * GitHubリポジトリ内のアセットのDTO
+ */
+
+/**
+ * アセットの型定義
+ */
+export type GitHubAsset = {
+  content: Uint8Array<ArrayBuffer>;
+  sha: string;
+};
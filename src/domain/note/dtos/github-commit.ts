@@ -11,6 +11,12 @@ export const gitHubCommitSchema = z.object({
   message: z.string(),
   timestamp: z.string(),
   url: z.string().url(),
+  author: z
+    .object({
+      name: z.string(),
+      username: z.string().optional(),
+    })
+    .optional(),
   added: z.array(z.string()),
   removed: z.array(z.string()),
   modified: z.array(z.string()),
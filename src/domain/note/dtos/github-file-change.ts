@@ -0,0 +1,32 @@
+/**
+ * GitHubのファイル変更情報のDTO
+ */
+import { z } from "zod";
+
+/**
+ * ファイル変更ステータス
+ */
+export const GitHubFileChangeStatus = {
+  ADDED: "added",
+  MODIFIED: "modified",
+  REMOVED: "removed",
+  RENAMED: "renamed",
+} as const;
+
+export type GitHubFileChangeStatus =
+  (typeof GitHubFileChangeStatus)[keyof typeof GitHubFileChangeStatus];
+
+/**
+ * ファイル変更情報のZodスキーマ
+ */
+export const gitHubFileChangeSchema = z.object({
+  status: z.nativeEnum(GitHubFileChangeStatus),
+  path: z.string().nonempty(),
+  previousPath: z.string().nonempty().nullable(),
+  sha: z.string().nonempty().nullable(),
+});
+
+/**
+ * ファイル変更情報の型定義
+ */
+export type GitHubFileChange = z.infer<typeof gitHubFileChangeSchema>;
@@ -0,0 +1,21 @@
+/**
+ * GitHubのファイルを変更したコミット情報のDTO
+ */
+import { z } from "zod";
+
+/**
+ * ファイルを変更したコミット情報のZodスキーマ
+ */
+export const gitHubFileCommitSchema = z.object({
+  sha: z.string().nonempty(),
+  message: z.string(),
+  authorName: z.string().nullable(),
+  authorLogin: z.string().nullable(),
+  committedAt: z.date(),
+  url: z.string().url(),
+});
+
+/**
+ * ファイルを変更したコミット情報の型定義
+ */
+export type GitHubFileCommit = z.infer<typeof gitHubFileCommitSchema>;
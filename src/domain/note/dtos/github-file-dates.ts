@@ -0,0 +1,18 @@
+/**
+ * GitHubのファイルのコミット日時のDTO
+ */
+import { z } from "zod";
+
+/**
+ * ファイルのコミット日時のZodスキーマ
+ * 取得できなかった日時はnullとする
+ */
+export const gitHubFileDatesSchema = z.object({
+  firstCommittedAt: z.date().nullable(),
+  lastCommittedAt: z.date().nullable(),
+});
+
+/**
+ * ファイルのコミット日時の型定義
+ */
+export type GitHubFileDates = z.infer<typeof gitHubFileDatesSchema>;
@@ -0,0 +1,22 @@
+/**
+ * GitHubのPushイベントのDTO
+ */
+import { z } from "zod";
+import { gitHubCommitSchema } from "./github-commit";
+
+/**
+ * GitHubのPushイベントのZodスキーマ
+ */
+export const gitHubPushSchema = z.object({
+  owner: z.string().nonempty(),
+  repo: z.string().nonempty(),
+  installationId: z.number().int().positive(),
+  before: z.string().nonempty(),
+  after: z.string().nonempty(),
+  commits: z.array(gitHubCommitSchema),
+});
+
+/**
+ * GitHubのPushイベントの型定義
+ */
+export type GitHubPush = z.infer<typeof gitHubPushSchema>;
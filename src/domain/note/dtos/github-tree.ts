@@ -0,0 +1,31 @@
+/**
+ * GitHubツリー情報のDTO
+ */
+import { z } from "zod";
+
+/**
+ * GitHubツリー内のファイル情報のZodスキーマ
+ */
+export const gitHubFileSchema = z.object({
+  path: z.string().nonempty(),
+  sha: z.string().nonempty(),
+});
+
+/**
+ * GitHubツリー内のファイル情報の型定義
+ */
+export type GitHubFile = z.infer<typeof gitHubFileSchema>;
+
+/**
+ * GitHubツリー情報のZodスキーマ
+ */
+export const gitHubTreeSchema = z.object({
+  commitSha: z.string().nonempty(),
+  treeSha: z.string().nonempty(),
+  files: z.array(gitHubFileSchema),
+});
+
+/**
+ * GitHubツリー情報の型定義
+ */
+export type GitHubTree = z.infer<typeof gitHubTreeSchema>;
@@ -1,2 +1,11 @@
 export * from "./github-repository";
 export * from "./github-commit";
+export * from "./github-tree";
+export * from "./github-file-change";
+export * from "./github-asset";
+export * from "./search-query";
+export * from "./github-push";
+export * from "./book-config";
+export * from "./github-file-commit";
+export * from "./github-file-dates";
+export * from "./note-preview";
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+/**
+ * プレビューURLに署名して埋め込む内容
+ * 非公開のノートもプレビューできるよう、ノートではなくリポジトリのファイルを指す
+ */
+export const notePreviewSchema = z.object({
+  bookId: z.string().uuid(),
+  path: z.string().nonempty(),
+  expiresAt: z.coerce.date(),
+});
+export type NotePreview = z.infer<typeof notePreviewSchema>;
+
+/**
+ * プレビューURLの有効期限の上限（秒）
+ */
+export const maxPreviewExpiresIn = 60 * 60 * 24 * 30;
@@ -5,6 +5,13 @@ export const parsedMarkdownSchema = z.object({
   title: z.string().nullable(),
   body: z.string(),
   tags: z.array(z.string().nonempty()).default([]),
+  links: z.array(z.string().nonempty()).default([]),
   scope: noteScopeSchema,
+  audience: z.array(z.string().nonempty()).default([]),
+  description: z.string().nullable(),
+  publishedAt: z.date().nullable(),
+  coverImage: z.string().nullable(),
+  sortOrder: z.number().int().nullable(),
+  toc: z.boolean(),
 });
 export type ParsedMarkdown = z.infer<typeof parsedMarkdownSchema>;
@@ -0,0 +1,35 @@
+/**
+ * ノート検索条件のDTO
+ */
+import { z } from "zod";
+
+/**
+ * ノート検索条件のZodスキーマ
+ */
+export const searchQuerySchema = z.object({
+  terms: z.array(z.string().nonempty()),
+  phrases: z.array(z.string().nonempty()),
+  tags: z.array(z.string().nonempty()),
+  books: z.array(z.string().nonempty()),
+});
+
+/**
+ * ノート検索条件の型定義
+ */
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+/**
+ * 検索結果の抜粋のZodスキーマ
+ * 一致した箇所をhighlightで示す
+ */
+export const searchSnippetSchema = z.array(
+  z.object({
+    text: z.string(),
+    highlight: z.boolean(),
+  }),
+);
+
+/**
+ * 検索結果の抜粋の型定義
+ */
+export type SearchSnippet = z.infer<typeof searchSnippetSchema>;
@@ -0,0 +1,43 @@
+import { expect, test } from "vitest";
+import { isNotePath, toFilePath, toNotePath } from "../note";
+
+test("Markdownファイルのパスを判定するとノートとして扱うこと", () => {
+  expect(isNotePath("note.md")).toBe(true);
+  expect(isNotePath("docs/guide/note.md")).toBe(true);
+});
+
+test("Markdown以外のファイルのパスを判定するとノートとして扱わないこと", () => {
+  expect(isNotePath("image.png")).toBe(false);
+  expect(isNotePath("docs/notes.mdx")).toBe(false);
+});
+
+test("README.mdのパスを判定するとリポジトリ直下のもののみノートとして扱わないこと", () => {
+  expect(isNotePath("README.md")).toBe(false);
+  expect(isNotePath("docs/README.md")).toBe(true);
+});
+
+test("ネストしたファイルパスをノートのパスに変換するとディレクトリの区切りがすべて置き換わること", () => {
+  expect(toNotePath("a/b/c.md")).toBe("a--b--c.md");
+});
+
+test("区切りと紛らわしい-や~を含むファイルパスをノートのパスに変換するとエスケープされること", () => {
+  expect(toNotePath("a--b.md")).toBe("a~--b.md");
+  expect(toNotePath("a-/b.md")).toBe("a~---b.md");
+  expect(toNotePath("a~b/c.md")).toBe("a~~b--c.md");
+  expect(toNotePath("a-b/c.md")).toBe("a-b--c.md");
+});
+
+test.each([
+  "note.md",
+  "a/b/c.md",
+  "a--b.md",
+  "a-/-b.md",
+  "---/~-~.md",
+  "a~~b/~/c-.md",
+  "docs/2024-01-01-note.md",
+])(
+  "ファイルパス %s をノートのパスに変換して戻すと元のファイルパスになること",
+  (path) => {
+    expect(toFilePath(toNotePath(path))).toBe(path);
+  },
+);
@@ -9,6 +9,7 @@ import { z } from "zod";
 export const bookDetailsSchema = z.object({
   name: z.string().nonempty(),
   description: z.string().default(""),
+  summary: z.string().nullable().default(null),
 });
 
 /**
@@ -0,0 +1,21 @@
+/**
+ * ブックファイルエンティティ
+ * 同期済みのファイルとそのBlob SHAを表す
+ */
+import { z } from "zod";
+
+/**
+ * ブックファイルのZodスキーマ
+ */
+export const bookFileSchema = z.object({
+  bookId: z.string().uuid(),
+  path: z.string().nonempty(),
+  sha: z.string().nonempty(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * ブックファイルの型定義
+ */
+export type BookFile = z.infer<typeof bookFileSchema>;
@@ -0,0 +1,39 @@
+/**
+ * ブックメンバーエンティティ
+ * ブックを共同で管理するユーザーとその権限を表す
+ */
+import { z } from "zod";
+
+/**
+ * ブックメンバーの権限
+ * オーナーはメンバーの管理とブックの削除ができる
+ */
+export const BookMemberRole = {
+  OWNER: "owner",
+  EDITOR: "editor",
+} as const;
+
+export type BookMemberRole =
+  (typeof BookMemberRole)[keyof typeof BookMemberRole];
+
+export const bookMemberRoleSchema = z.enum([
+  BookMemberRole.OWNER,
+  BookMemberRole.EDITOR,
+]);
+
+/**
+ * ブックメンバーのZodスキーマ
+ */
+export const bookMemberSchema = z.object({
+  bookId: z.string().uuid(),
+  userId: z.string().uuid(),
+  handle: z.string().nonempty(),
+  role: bookMemberRoleSchema,
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * ブックメンバーの型定義
+ */
+export type BookMember = z.infer<typeof bookMemberSchema>;
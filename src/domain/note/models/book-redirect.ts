@@ -0,0 +1,21 @@
+/**
+ * ブックリダイレクトエンティティ
+ * 名前の変更や移管前のリポジトリからブックへの転送を表す
+ */
+import { z } from "zod";
+
+/**
+ * ブックリダイレクトのZodスキーマ
+ */
+export const bookRedirectSchema = z.object({
+  owner: z.string().nonempty(),
+  repo: z.string().nonempty(),
+  bookId: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * ブックリダイレクトの型定義
+ */
+export type BookRedirect = z.infer<typeof bookRedirectSchema>;
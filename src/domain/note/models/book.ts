@@ -5,6 +5,15 @@ import { z } from "zod";
 import { bookDetailsSchema } from "./book-details";
 import { syncStatusSchema } from "./sync-status";
 
+/**
+ * ブックのスラッグのZodスキーマ
+ * ノートのパスと区別できるよう、英小文字・数字・ハイフンのみとする
+ */
+export const bookSlugSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9-]*$/)
+  .max(64);
+
 /**
  * ブックのZodスキーマ
  */
@@ -13,7 +22,15 @@ export const bookSchema = z.object({
   userId: z.string().uuid(),
   owner: z.string().nonempty(),
   repo: z.string().nonempty(),
+  // リポジトリ内でブックを識別するスラッグ。空文字の場合はリポジトリの既定のブック
+  slug: z.union([bookSlugSchema, z.literal("")]),
   webhookId: z.number().int().positive(),
+  // 公開するブランチ。nullの場合はリポジトリのデフォルトブランチ
+  branch: z.string().nonempty().nullable(),
+  // 公開するディレクトリ。nullの場合はリポジトリのルート
+  rootPath: z.string().nonempty().nullable(),
+  // 公開しないファイルのグロブ。ルートパスからの相対パスに対して判定する
+  ignore: z.array(z.string().nonempty()),
   details: bookDetailsSchema,
   syncStatus: syncStatusSchema,
   createdAt: z.date(),
@@ -24,3 +41,21 @@ export const bookSchema = z.object({
  * ブックの型定義
  */
 export type Book = z.infer<typeof bookSchema>;
+
+/**
+ * URLのセグメントがブックのスラッグかどうかを判定する
+ */
+export function isBookSlug(segment: string) {
+  return bookSlugSchema.safeParse(segment).success;
+}
+
+/**
+ * ブックのURLのパスを取得する
+ */
+export function getBookPath(
+  handle: string,
+  book: Pick<Book, "owner" | "repo" | "slug">,
+) {
+  const path = `/${handle}/${book.owner}/${book.repo}`;
+  return book.slug ? `${path}/${book.slug}` : path;
+}
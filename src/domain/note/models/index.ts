@@ -3,4 +3,12 @@ export * from "./sync-status";
 export * from "./book-details";
 export * from "./tag";
 export * from "./book";
+export * from "./book-file";
 export * from "./note";
+export * from "./note-redirect";
+export * from "./webhook-delivery";
+export * from "./sync-job";
+export * from "./book-redirect";
+export * from "./book-member";
+export * from "./note-revision";
+export * from "./note-version";
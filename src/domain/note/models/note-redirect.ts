@@ -0,0 +1,21 @@
+/**
+ * ノートリダイレクトエンティティ
+ * リネームされたノートの旧パスから新パスへの転送を表す
+ */
+import { z } from "zod";
+
+/**
+ * ノートリダイレクトのZodスキーマ
+ */
+export const noteRedirectSchema = z.object({
+  bookId: z.string().uuid(),
+  fromPath: z.string().nonempty(),
+  toPath: z.string().nonempty(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * ノートリダイレクトの型定義
+ */
+export type NoteRedirect = z.infer<typeof noteRedirectSchema>;
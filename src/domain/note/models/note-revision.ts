@@ -0,0 +1,25 @@
+/**
+ * ノートリビジョンエンティティ
+ * ノートのファイルを変更したコミットを表す
+ */
+import { z } from "zod";
+
+/**
+ * ノートリビジョンのZodスキーマ
+ */
+export const noteRevisionSchema = z.object({
+  noteId: z.string().uuid(),
+  commitSha: z.string().nonempty(),
+  message: z.string(),
+  authorName: z.string().nullable(),
+  authorLogin: z.string().nullable(),
+  blobSha: z.string().nullable(),
+  url: z.string().url(),
+  committedAt: z.date(),
+  createdAt: z.date(),
+});
+
+/**
+ * ノートリビジョンの型定義
+ */
+export type NoteRevision = z.infer<typeof noteRevisionSchema>;
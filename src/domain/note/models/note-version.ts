@@ -0,0 +1,21 @@
+/**
+ * ノートバージョンエンティティ
+ * コミット時点のノートのMarkdownを表す
+ */
+import { z } from "zod";
+
+/**
+ * ノートバージョンのZodスキーマ
+ */
+export const noteVersionSchema = z.object({
+  bookId: z.string().uuid(),
+  path: z.string().nonempty(),
+  commitSha: z.string().nonempty(),
+  content: z.string(),
+  createdAt: z.date(),
+});
+
+/**
+ * ノートバージョンの型定義
+ */
+export type NoteVersion = z.infer<typeof noteVersionSchema>;
@@ -10,6 +10,8 @@ export const NoteScope = {
   PUBLIC: "public",
   PRIVATE: "private",
   LIMITED: "limited",
+  // URLを知っているユーザーのみ閲覧でき、一覧や検索には含めない
+  UNLISTED: "unlisted",
 } as const;
 
 export type NoteScope = (typeof NoteScope)[keyof typeof NoteScope];
@@ -21,6 +23,7 @@ export const noteScopeSchema = z.enum([
   NoteScope.PUBLIC,
   NoteScope.PRIVATE,
   NoteScope.LIMITED,
+  NoteScope.UNLISTED,
 ]);
 
 /**
@@ -34,6 +37,16 @@ export const noteSchema = z.object({
   title: z.string().nonempty(),
   body: z.string(),
   scope: noteScopeSchema,
+  // 限定公開ノートを閲覧できるユーザーの条件
+  audience: z.array(z.string().nonempty()),
+  description: z.string().nullable(),
+  coverImage: z.string().nullable(),
+  // 公開日時。フロントマターのdate、なければファイルの最初のコミット日時
+  publishedAt: z.date().nullable(),
+  // 更新日時。ファイルの最後のコミット日時
+  modifiedAt: z.date().nullable(),
+  sortOrder: z.number().int().nullable(),
+  toc: z.boolean(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -44,3 +57,40 @@ export const noteSchema = z.object({
 export type Note = z.infer<typeof noteSchema>;
 
 export const separator = "--";
+
+/**
+ * ノートのパスでファイル名中の文字をエスケープする文字
+ */
+const escapeChar = "~";
+
+/**
+ * ノートとして扱うファイルかどうかを判定する
+ * リポジトリ直下のREADME.mdはブックの説明として使うため除く
+ */
+export function isNotePath(path: string) {
+  return path.endsWith(".md") && path !== "README.md";
+}
+
+/**
+ * リポジトリ内のファイルパスをノートのパスに変換する
+ * ディレクトリの区切りをseparatorに置き換え、元に戻せるようにファイル名中の~と区切りと紛らわしい-をエスケープする
+ */
+export function toNotePath(path: string) {
+  return path
+    .split("/")
+    .map((segment) =>
+      segment
+        .replaceAll(escapeChar, `${escapeChar}${escapeChar}`)
+        .replace(/-(?=-|$)/g, `${escapeChar}-`),
+    )
+    .join(separator);
+}
+
+/**
+ * ノートのパスをリポジトリ内のファイルパスに変換する
+ */
+export function toFilePath(notePath: string) {
+  return notePath.replace(/~[~-]|--/g, (token) =>
+    token === separator ? "/" : token.slice(1),
+  );
+}
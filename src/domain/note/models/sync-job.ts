@@ -0,0 +1,45 @@
+/**
+ * 同期ジョブエンティティ
+ * Webhookから受け付けたPushの非同期処理を表す
+ */
+import { z } from "zod";
+import { gitHubPushSchema } from "../dtos/github-push";
+
+/**
+ * 同期ジョブステータス
+ */
+export const SyncJobStatus = {
+  QUEUED: "queued",
+  RUNNING: "running",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+} as const;
+
+export type SyncJobStatus = (typeof SyncJobStatus)[keyof typeof SyncJobStatus];
+
+/**
+ * 同期ジョブのZodスキーマ
+ */
+export const syncJobSchema = z.object({
+  id: z.string().uuid(),
+  bookId: z.string().uuid(),
+  deliveryId: z.string().nullable(),
+  payload: gitHubPushSchema,
+  status: z.enum([
+    SyncJobStatus.QUEUED,
+    SyncJobStatus.RUNNING,
+    SyncJobStatus.SUCCEEDED,
+    SyncJobStatus.FAILED,
+  ]),
+  attempts: z.number().int().nonnegative(),
+  runAt: z.date(),
+  lockedAt: z.date().nullable(),
+  error: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * 同期ジョブの型定義
+ */
+export type SyncJob = z.infer<typeof syncJobSchema>;
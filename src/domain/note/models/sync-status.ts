@@ -8,6 +8,7 @@ import { z } from "zod";
  */
 export const SyncStatusCode = {
   WAITING: "waiting",
+  SYNCING: "syncing",
   SYNCED: "synced",
   ERROR: "error",
 } as const;
@@ -22,9 +23,12 @@ export const syncStatusSchema = z.object({
   lastSyncedAt: z.date().nullable(),
   status: z.enum([
     SyncStatusCode.WAITING,
+    SyncStatusCode.SYNCING,
     SyncStatusCode.SYNCED,
     SyncStatusCode.ERROR,
   ]),
+  commitSha: z.string().nullable(),
+  treeSha: z.string().nullable(),
 });
 
 /**
@@ -0,0 +1,40 @@
+/**
+ * Webhook配信エンティティ
+ * GitHubから受信したWebhookの処理結果を表す
+ */
+import { z } from "zod";
+
+/**
+ * Webhook配信ステータス
+ */
+export const WebhookDeliveryStatus = {
+  PROCESSING: "processing",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+} as const;
+
+export type WebhookDeliveryStatus =
+  (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+/**
+ * Webhook配信のZodスキーマ
+ * IDにはX-GitHub-Deliveryヘッダーの値を用いる
+ */
+export const webhookDeliverySchema = z.object({
+  id: z.string().nonempty(),
+  bookId: z.string().uuid().nullable(),
+  event: z.string().nonempty(),
+  status: z.enum([
+    WebhookDeliveryStatus.PROCESSING,
+    WebhookDeliveryStatus.SUCCEEDED,
+    WebhookDeliveryStatus.FAILED,
+  ]),
+  error: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * Webhook配信の型定義
+ */
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
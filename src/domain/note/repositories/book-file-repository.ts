@@ -0,0 +1,43 @@
+import type { ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type { RepositoryError } from "../../types/error";
+import type { BookFile } from "../models";
+
+/**
+ * ブックファイル保存時のZodスキーマ
+ */
+export const saveBookFileSchema = z.object({
+  path: z.string().nonempty(),
+  sha: z.string().nonempty(),
+});
+
+/**
+ * ブックファイル保存時の型定義
+ */
+export type SaveBookFile = z.infer<typeof saveBookFileSchema>;
+
+/**
+ * ブックファイルリポジトリのインターフェース
+ */
+export interface BookFileRepository {
+  /**
+   * 指定したブックIDのファイル一覧を取得する
+   */
+  findByBookId(bookId: string): ResultAsync<BookFile[], RepositoryError>;
+
+  /**
+   * ファイルを作成または更新する
+   */
+  save(
+    bookId: string,
+    files: SaveBookFile[],
+  ): ResultAsync<void, RepositoryError>;
+
+  /**
+   * 指定したブックID、pathのファイルを削除する
+   */
+  deleteByPath(
+    bookId: string,
+    paths: string[],
+  ): ResultAsync<void, RepositoryError>;
+}
@@ -0,0 +1,47 @@
+import type { ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type { RepositoryError } from "../../types/error";
+import { type BookMember, bookMemberRoleSchema } from "../models";
+
+/**
+ * ブックメンバー保存時のZodスキーマ
+ */
+export const saveBookMemberSchema = z.object({
+  bookId: z.string().uuid(),
+  userId: z.string().uuid(),
+  role: bookMemberRoleSchema,
+});
+
+/**
+ * ブックメンバー保存時の型定義
+ */
+export type SaveBookMember = z.infer<typeof saveBookMemberSchema>;
+
+/**
+ * ブックメンバーリポジトリのインターフェース
+ */
+export interface BookMemberRepository {
+  /**
+   * ブックメンバーを保存する
+   * 既にメンバーの場合は権限を更新する
+   */
+  save(member: SaveBookMember): ResultAsync<BookMember, RepositoryError>;
+
+  /**
+   * 指定したブックとユーザーのブックメンバーを取得する
+   */
+  findByBookIdAndUserId(
+    bookId: string,
+    userId: string,
+  ): ResultAsync<BookMember, RepositoryError>;
+
+  /**
+   * 指定したブックのメンバーを一覧する
+   */
+  listByBookId(bookId: string): ResultAsync<BookMember[], RepositoryError>;
+
+  /**
+   * ブックメンバーを削除する
+   */
+  delete(bookId: string, userId: string): ResultAsync<void, RepositoryError>;
+}
@@ -0,0 +1,39 @@
+import type { ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type { RepositoryError } from "../../types/error";
+import type { BookRedirect } from "../models";
+
+/**
+ * ブックリダイレクト作成時のZodスキーマ
+ */
+export const createBookRedirectSchema = z.object({
+  owner: z.string().nonempty(),
+  repo: z.string().nonempty(),
+  bookId: z.string().uuid(),
+});
+
+/**
+ * ブックリダイレクト作成時の型定義
+ */
+export type CreateBookRedirect = z.infer<typeof createBookRedirectSchema>;
+
+/**
+ * ブックリダイレクトリポジトリのインターフェース
+ */
+export interface BookRedirectRepository {
+  /**
+   * ブックリダイレクトを作成する
+   * 同じオーナーとリポジトリのリダイレクトは新しいブックに付け替える
+   */
+  create(
+    redirect: CreateBookRedirect,
+  ): ResultAsync<BookRedirect, RepositoryError>;
+
+  /**
+   * 指定したオーナーとリポジトリのブックリダイレクトを取得する
+   */
+  findByOwnerAndRepo(
+    owner: string,
+    repo: string,
+  ): ResultAsync<BookRedirect, RepositoryError>;
+}
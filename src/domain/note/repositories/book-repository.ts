@@ -12,7 +12,11 @@ export const createBookSchema = z.object({
   userId: z.string().uuid(),
   owner: z.string().nonempty(),
   repo: z.string().nonempty(),
+  slug: z.string().optional(),
   webhookId: z.number().int().positive(),
+  branch: z.string().nonempty().nullish(),
+  rootPath: z.string().nonempty().nullish(),
+  ignore: z.array(z.string().nonempty()).optional(),
   details: z.object({
     name: z.string().nonempty(),
     description: z.string().nonempty(),
@@ -20,6 +24,8 @@ export const createBookSchema = z.object({
   syncStatus: z.object({
     lastSyncedAt: z.date().nullable(),
     status: z.nativeEnum(SyncStatusCode),
+    commitSha: z.string().nullish(),
+    treeSha: z.string().nullish(),
   }),
 });
 
@@ -32,16 +38,22 @@ export const updateBookSchema = z.object({
   owner: z.string().nonempty().optional(),
   repo: z.string().nonempty().optional(),
   webhookId: z.number().int().positive().optional(),
+  branch: z.string().nonempty().nullable().optional(),
+  rootPath: z.string().nonempty().nullable().optional(),
+  ignore: z.array(z.string().nonempty()).optional(),
   details: z
     .object({
       name: z.string().nonempty().optional(),
       description: z.string().nonempty().optional(),
+      summary: z.string().nullable().optional(),
     })
     .optional(),
   syncStatus: z
     .object({
       lastSyncedAt: z.date().nullable().optional(),
       status: z.nativeEnum(SyncStatusCode).optional(),
+      commitSha: z.string().nullish(),
+      treeSha: z.string().nullish(),
     })
     .optional(),
 });
@@ -81,13 +93,28 @@ export interface BookRepository {
   findByUserId(userId: string): ResultAsync<Book[], RepositoryError>;
 
   /**
-   * 指定したオーナーとリポジトリのブックを取得する
+   * 指定したオーナーとリポジトリ、スラッグのブックを取得する
+   * スラッグを省略した場合はリポジトリの既定のブックを取得する
    */
   findByOwnerAndRepo(
     owner: string,
     repo: string,
+    slug?: string,
   ): ResultAsync<Book, RepositoryError>;
 
+  /**
+   * 指定したオーナーとリポジトリのブック一覧をスラッグ順に取得する
+   */
+  listByOwnerAndRepo(
+    owner: string,
+    repo: string,
+  ): ResultAsync<Book[], RepositoryError>;
+
+  /**
+   * 同期したことがあり、ツリーのSHAが記録されていないブックを同期状態の更新が古い順に取得する
+   */
+  listWithoutTreeSha(limit: number): ResultAsync<Book[], RepositoryError>;
+
   /**
    * 指定したIDのブックを削除する
    */
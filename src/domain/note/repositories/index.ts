@@ -1,3 +1,11 @@
 export * from "./note-repository";
+export * from "./note-redirect-repository";
 export * from "./book-repository";
 export * from "./tag-repository";
+export * from "./book-file-repository";
+export * from "./webhook-delivery-repository";
+export * from "./sync-job-repository";
+export * from "./book-redirect-repository";
+export * from "./book-member-repository";
+export * from "./note-revision-repository";
+export * from "./note-version-repository";
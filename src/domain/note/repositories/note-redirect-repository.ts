@@ -0,0 +1,39 @@
+import type { ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type { RepositoryError } from "../../types/error";
+import type { NoteRedirect } from "../models";
+
+/**
+ * ノートリダイレクト作成時のZodスキーマ
+ */
+export const createNoteRedirectSchema = z.object({
+  bookId: z.string().uuid(),
+  fromPath: z.string().nonempty(),
+  toPath: z.string().nonempty(),
+});
+
+/**
+ * ノートリダイレクト作成時の型定義
+ */
+export type CreateNoteRedirect = z.infer<typeof createNoteRedirectSchema>;
+
+/**
+ * ノートリダイレクトリポジトリのインターフェース
+ */
+export interface NoteRedirectRepository {
+  /**
+   * ノートリダイレクトを作成する
+   * 旧パスを転送先とする既存のリダイレクトは新しいパスに付け替える
+   */
+  create(
+    redirect: CreateNoteRedirect,
+  ): ResultAsync<NoteRedirect, RepositoryError>;
+
+  /**
+   * 指定したブックID、pathのノートリダイレクトを取得する
+   */
+  findByPath(
+    bookId: string,
+    path: string,
+  ): ResultAsync<NoteRedirect, RepositoryError>;
+}
@@ -4,6 +4,7 @@ import type { ResultAsync } from "neverthrow";
 import { z } from "zod";
 import type { RepositoryError } from "../../types/error";
 import type { PaginationParams } from "../../types/pagination";
+import type { SearchQuery } from "../dtos/search-query";
 import type { Note } from "../models";
 import { noteScopeSchema } from "../models/note";
 
@@ -17,7 +18,17 @@ export const createOrUpdateNoteSchema = z.object({
   title: z.string().nonempty(),
   body: z.string(),
   scope: noteScopeSchema,
+  audience: z.array(z.string().nonempty()).default([]),
+  description: z.string().nullable(),
+  coverImage: z.string().nullable(),
+  publishedAt: z.date().nullable(),
+  modifiedAt: z.date().nullable(),
+  sortOrder: z.number().int().nullable(),
+  toc: z.boolean().default(true),
   tags: z.array(z.string().nonempty()).default([]),
+  links: z.array(z.string().nonempty()).default([]),
+  // 本文やカバー画像から参照しているアセットのリポジトリ内のパス
+  assets: z.array(z.string().nonempty()).default([]),
 });
 
 /**
@@ -25,6 +36,23 @@ export const createOrUpdateNoteSchema = z.object({
  */
 export type CreateOrUpdateNote = z.infer<typeof createOrUpdateNoteSchema>;
 
+/**
+ * URL上のノートの所在を表すZodスキーマ
+ * 同じパスのノートが複数のブックにあるため、ブックを特定する情報と組み合わせて扱う
+ */
+export const noteLocationSchema = z.object({
+  handle: z.string().nonempty(),
+  owner: z.string().nonempty(),
+  repo: z.string().nonempty(),
+  slug: z.string(),
+  path: z.string().nonempty(),
+});
+
+/**
+ * URL上のノートの所在の型定義
+ */
+export type NoteLocation = z.infer<typeof noteLocationSchema>;
+
 /**
  * ノートリポジトリのインターフェース
  */
@@ -40,9 +68,9 @@ export interface NoteRepository {
   findById(id: string): ResultAsync<Note, RepositoryError>;
 
   /**
-   * 指定したパスのノートを取得する
+   * ユーザーのハンドル、リポジトリ、ブックのスラッグ、パスを指定してノートを取得する
    */
-  findByPath(path: string): ResultAsync<Note, RepositoryError>;
+  findByLocation(location: NoteLocation): ResultAsync<Note, RepositoryError>;
 
   /**
    * 指定したブックIDのノート一覧を取得する
@@ -54,6 +82,33 @@ export interface NoteRepository {
 
   listAllByBookId(bookId: string): ResultAsync<Note[], RepositoryError>;
 
+  /**
+   * 指定したブックIDのノートを目次用に本文を除いて取得する
+   */
+  listTreeItemsByBookId(
+    bookId: string,
+  ): ResultAsync<
+    Pick<Note, "id" | "path" | "title" | "sortOrder">[],
+    RepositoryError
+  >;
+
+  /**
+   * 指定したリンク先のいずれかへウィキリンクしているノート一覧を取得する
+   */
+  findByLinkTargets(
+    bookId: string,
+    targets: string[],
+  ): ResultAsync<Note[], RepositoryError>;
+
+  /**
+   * 指定したアセットを参照しているノート一覧を取得する
+   * 閲覧できるかどうかを判定するため、限定公開のノートも含める
+   */
+  findByAsset(
+    bookId: string,
+    path: string,
+  ): ResultAsync<Note[], RepositoryError>;
+
   /**
    * 指定したブックID、タグIDのノート一覧を取得する
    */
@@ -68,13 +123,23 @@ export interface NoteRepository {
    */
   search(
     bookId?: string | null,
-    query?: string | null,
+    query?: SearchQuery | null,
     pagination?: PaginationParams,
   ): ResultAsync<
     { items: (Note & { fullPath: string })[]; count: number },
     RepositoryError
   >;
 
+  /**
+   * 指定したブックID、pathのノートを別のpathに移動する
+   * 移動先に既存のノートがある場合は置き換える
+   */
+  move(
+    bookId: string,
+    fromPath: string,
+    toPath: string,
+  ): ResultAsync<Note, RepositoryError>;
+
   /**
    * 指定したIDのノートを削除する
    */
@@ -0,0 +1,44 @@
+import type { ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type { RepositoryError } from "../../types/error";
+import type { NoteRevision } from "../models";
+
+/**
+ * ノートリビジョン作成時のZodスキーマ
+ */
+export const createNoteRevisionSchema = z.object({
+  noteId: z.string().uuid(),
+  commitSha: z.string().nonempty(),
+  message: z.string(),
+  authorName: z.string().nullable(),
+  authorLogin: z.string().nullable(),
+  blobSha: z.string().nullable(),
+  url: z.string().url(),
+  committedAt: z.date(),
+});
+
+/**
+ * ノートリビジョン作成時の型定義
+ */
+export type CreateNoteRevision = z.infer<typeof createNoteRevisionSchema>;
+
+/**
+ * ノートリビジョンリポジトリのインターフェース
+ */
+export interface NoteRevisionRepository {
+  /**
+   * ノートリビジョンをまとめて作成する
+   * 既に作成済みのノートとコミットのリビジョンは無視する
+   */
+  createMany(
+    revisions: CreateNoteRevision[],
+  ): ResultAsync<void, RepositoryError>;
+
+  /**
+   * 指定したノートのリビジョンを新しい順に取得する
+   */
+  listByNoteId(
+    noteId: string,
+    limit: number,
+  ): ResultAsync<NoteRevision[], RepositoryError>;
+}
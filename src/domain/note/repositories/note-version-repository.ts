@@ -0,0 +1,39 @@
+import type { ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type { RepositoryError } from "../../types/error";
+import type { NoteVersion } from "../models";
+
+/**
+ * ノートバージョン保存時のZodスキーマ
+ */
+export const saveNoteVersionSchema = z.object({
+  bookId: z.string().uuid(),
+  path: z.string().nonempty(),
+  commitSha: z.string().nonempty(),
+  content: z.string(),
+});
+
+/**
+ * ノートバージョン保存時の型定義
+ */
+export type SaveNoteVersion = z.infer<typeof saveNoteVersionSchema>;
+
+/**
+ * ノートバージョンリポジトリのインターフェース
+ */
+export interface NoteVersionRepository {
+  /**
+   * ノートバージョンを保存する
+   * コミット時点の内容は変わらないため、保存済みの場合は何もしない
+   */
+  save(version: SaveNoteVersion): ResultAsync<void, RepositoryError>;
+
+  /**
+   * 指定したブック、パス、コミットのノートバージョンを取得する
+   */
+  findByCommit(
+    bookId: string,
+    path: string,
+    commitSha: string,
+  ): ResultAsync<NoteVersion, RepositoryError>;
+}
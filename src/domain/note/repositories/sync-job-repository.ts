@@ -0,0 +1,72 @@
+import type { ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type { RepositoryError } from "../../types/error";
+import { gitHubPushSchema } from "../dtos/github-push";
+import { type SyncJob, SyncJobStatus } from "../models";
+
+/**
+ * 同期ジョブ作成時のZodスキーマ
+ */
+export const createSyncJobSchema = z.object({
+  bookId: z.string().uuid(),
+  deliveryId: z.string().nullable(),
+  payload: gitHubPushSchema,
+});
+
+/**
+ * 同期ジョブ更新時のZodスキーマ
+ */
+export const updateSyncJobSchema = z.object({
+  id: z.string().uuid(),
+  status: z.nativeEnum(SyncJobStatus).optional(),
+  runAt: z.date().optional(),
+  lockedAt: z.date().nullable().optional(),
+  error: z.string().nullable().optional(),
+});
+
+/**
+ * 同期ジョブ作成時の型定義
+ */
+export type CreateSyncJob = z.infer<typeof createSyncJobSchema>;
+
+/**
+ * 同期ジョブ更新時の型定義
+ */
+export type UpdateSyncJob = z.infer<typeof updateSyncJobSchema>;
+
+/**
+ * 同期ジョブリポジトリのインターフェース
+ */
+export interface SyncJobRepository {
+  /**
+   * 同期ジョブを作成する
+   */
+  create(job: CreateSyncJob): ResultAsync<SyncJob, RepositoryError>;
+
+  /**
+   * 同期ジョブを更新する
+   */
+  update(job: UpdateSyncJob): ResultAsync<SyncJob, RepositoryError>;
+
+  /**
+   * staleBeforeより前にロックされた実行中の同期ジョブのうち、
+   * 試行回数がmaxAttemptsに達したものを失敗にする
+   * 失敗にしたジョブを返す
+   */
+  failStale(
+    staleBefore: Date,
+    maxAttempts: number,
+  ): ResultAsync<SyncJob[], RepositoryError>;
+
+  /**
+   * 実行可能な同期ジョブを1件取得し、実行中にする
+   * 同じブックの未完了のジョブは作成順に1件ずつ実行し、
+   * staleBeforeより前にロックされ、試行回数がmaxAttempts未満の実行中のジョブは再実行する
+   * 実行可能なジョブがない場合はnullを返す
+   */
+  claim(
+    now: Date,
+    staleBefore: Date,
+    maxAttempts: number,
+  ): ResultAsync<SyncJob | null, RepositoryError>;
+}
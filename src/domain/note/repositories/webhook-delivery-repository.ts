@@ -0,0 +1,48 @@
+import type { ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type { RepositoryError } from "../../types/error";
+import type { WebhookDelivery, WebhookDeliveryStatus } from "../models";
+
+/**
+ * Webhook配信作成時のZodスキーマ
+ */
+export const createWebhookDeliverySchema = z.object({
+  id: z.string().nonempty(),
+  bookId: z.string().uuid().nullable(),
+  event: z.string().nonempty(),
+});
+
+/**
+ * Webhook配信作成時の型定義
+ */
+export type CreateWebhookDelivery = z.infer<typeof createWebhookDeliverySchema>;
+
+/**
+ * Webhook配信リポジトリのインターフェース
+ */
+export interface WebhookDeliveryRepository {
+  /**
+   * Webhook配信を処理中として作成する
+   * 同じIDの配信が失敗していた場合のみ再処理を許し、それ以外はUNIQUE_VIOLATIONを返す
+   */
+  create(
+    delivery: CreateWebhookDelivery,
+  ): ResultAsync<WebhookDelivery, RepositoryError>;
+
+  /**
+   * Webhook配信のステータスを更新する
+   */
+  updateStatus(
+    id: string,
+    status: WebhookDeliveryStatus,
+    error: string | null,
+  ): ResultAsync<WebhookDelivery, RepositoryError>;
+
+  /**
+   * 指定したブックIDのいずれかに紐付くWebhook配信を新しい順に取得する
+   */
+  listByBookIds(
+    bookIds: string[],
+    limit: number,
+  ): ResultAsync<WebhookDelivery[], RepositoryError>;
+}
@@ -0,0 +1,39 @@
+import { expect, test } from "vitest";
+import { extractAssetPaths, resolveRepoPath } from "../asset-reference";
+
+test("Markdownファイルからの相対パスを解決するとリポジトリ内のパスになること", () => {
+  expect(resolveRepoPath("../images/a.png#top", "docs/guide/note.md")).toEqual({
+    path: "docs/images/a.png",
+    hash: "#top",
+  });
+  expect(resolveRepoPath("/images/a b.png", "docs/note.md")).toEqual({
+    path: "images/a b.png",
+    hash: "",
+  });
+});
+
+test("外部URLやページ内リンクを解決するとnullになること", () => {
+  expect(resolveRepoPath("https://example.com/a.png", "note.md")).toBeNull();
+  expect(resolveRepoPath("//example.com/a.png", "note.md")).toBeNull();
+  expect(resolveRepoPath("#heading", "note.md")).toBeNull();
+});
+
+test("画像とリンク、カバー画像を含むMarkdownから取り出すと参照しているアセットのパスが得られること", () => {
+  const markdown = [
+    "![diagram](./diagram.svg)",
+    "[slides](../files/slides.pdf)",
+    "[other note](./other.md)",
+    "![external](https://example.com/a.png)",
+    "![again](diagram.svg)",
+  ].join("\n\n");
+
+  expect(extractAssetPaths(markdown, "docs/note.md", "cover.png")).toEqual([
+    "docs/cover.png",
+    "docs/diagram.svg",
+    "files/slides.pdf",
+  ]);
+});
+
+test("コードブロック内に画像の記法があるMarkdownから取り出すと参照として扱わないこと", () => {
+  expect(extractAssetPaths("```md\n![a](./a.png)\n```", "note.md")).toEqual([]);
+});
@@ -0,0 +1,141 @@
+import { expect, test } from "vitest";
+import { GitHubFileChangeStatus } from "../../dtos/github-file-change";
+import {
+  isInBookScope,
+  normalizeRootPath,
+  resolveBookPath,
+  scopeFileChanges,
+} from "../book-scope";
+
+const docsScope = { rootPath: "docs", ignore: ["drafts"] };
+
+test("前後にスラッシュのあるルートパスを正規化するとスラッシュが取り除かれること", () => {
+  expect(normalizeRootPath("./docs/guide/")).toBe("docs/guide");
+});
+
+test("リポジトリのルートを指すルートパスを正規化するとnullになること", () => {
+  expect(normalizeRootPath("")).toBeNull();
+  expect(normalizeRootPath(" / ")).toBeNull();
+  expect(normalizeRootPath(".")).toBeNull();
+  expect(normalizeRootPath(undefined)).toBeNull();
+});
+
+test("ルートパスを指定したブックでルートパスの外のファイルを判定すると公開範囲外になること", () => {
+  const scope = { rootPath: "docs", ignore: [] };
+  expect(isInBookScope(scope, "docs/note.md")).toBe(true);
+  expect(isInBookScope(scope, "docs-old/note.md")).toBe(false);
+  expect(isInBookScope(scope, "note.md")).toBe(false);
+});
+
+test("スラッシュを含まないパターンを除外に指定した場合に判定すると任意の階層で一致すること", () => {
+  const scope = { rootPath: null, ignore: ["drafts", "*.tmp.md"] };
+  expect(isInBookScope(scope, "drafts/note.md")).toBe(false);
+  expect(isInBookScope(scope, "a/drafts/b/note.md")).toBe(false);
+  expect(isInBookScope(scope, "a/note.tmp.md")).toBe(false);
+  expect(isInBookScope(scope, "drafts.md")).toBe(true);
+});
+
+test("スラッシュを含むパターンを除外に指定した場合に判定するとルートパスからの相対パスで一致すること", () => {
+  const scope = { rootPath: "docs", ignore: ["private/*.md"] };
+  expect(isInBookScope(scope, "docs/private/note.md")).toBe(false);
+  expect(isInBookScope(scope, "docs/private/sub/note.md")).toBe(true);
+  expect(isInBookScope(scope, "docs/a/private/note.md")).toBe(true);
+});
+
+test("**を含むパターンを除外に指定した場合に判定すると任意の階層に一致すること", () => {
+  const scope = { rootPath: null, ignore: ["**/secret/**", "a/**/b.md"] };
+  expect(isInBookScope(scope, "x/secret/y/note.md")).toBe(false);
+  expect(isInBookScope(scope, "a/b.md")).toBe(false);
+  expect(isInBookScope(scope, "a/x/y/b.md")).toBe(false);
+  expect(isInBookScope(scope, "a/x/c.md")).toBe(true);
+});
+
+test("?や正規表現の記号を含むパターンを除外に指定した場合に判定すると?は1文字に一致し記号はそのまま扱われること", () => {
+  const scope = { rootPath: null, ignore: ["note?.md", "(a).md"] };
+  expect(isInBookScope(scope, "note1.md")).toBe(false);
+  expect(isInBookScope(scope, "note10.md")).toBe(true);
+  expect(isInBookScope(scope, "(a).md")).toBe(false);
+  expect(isInBookScope(scope, "a.md")).toBe(true);
+});
+
+test("空のパターンを除外に指定した場合に判定すると無視されること", () => {
+  expect(isInBookScope({ rootPath: null, ignore: [" "] }, "note.md")).toBe(
+    true,
+  );
+});
+
+test("ルートパスからの相対パスを変換するとリポジトリ内のパスになること", () => {
+  expect(resolveBookPath({ rootPath: "docs" }, "README.md")).toBe(
+    "docs/README.md",
+  );
+  expect(resolveBookPath({ rootPath: null }, "README.md")).toBe("README.md");
+});
+
+test("公開範囲外の変更を含むPushの変更を絞り込むと公開範囲外の変更が除かれること", () => {
+  expect(
+    scopeFileChanges(docsScope, [
+      {
+        status: GitHubFileChangeStatus.MODIFIED,
+        path: "docs/note.md",
+        previousPath: null,
+        sha: "a",
+      },
+      {
+        status: GitHubFileChangeStatus.ADDED,
+        path: "docs/drafts/note.md",
+        previousPath: null,
+        sha: "b",
+      },
+    ]).map((change) => change.path),
+  ).toEqual(["docs/note.md"]);
+});
+
+test("公開範囲内へのリネームを絞り込むと追加として扱われること", () => {
+  expect(
+    scopeFileChanges(docsScope, [
+      {
+        status: GitHubFileChangeStatus.RENAMED,
+        path: "docs/note.md",
+        previousPath: "docs/drafts/note.md",
+        sha: "a",
+      },
+    ]),
+  ).toEqual([
+    {
+      status: GitHubFileChangeStatus.ADDED,
+      path: "docs/note.md",
+      previousPath: null,
+      sha: "a",
+    },
+  ]);
+});
+
+test("公開範囲外へのリネームを絞り込むと削除として扱われること", () => {
+  expect(
+    scopeFileChanges(docsScope, [
+      {
+        status: GitHubFileChangeStatus.RENAMED,
+        path: "other/note.md",
+        previousPath: "docs/note.md",
+        sha: "a",
+      },
+    ]),
+  ).toEqual([
+    {
+      status: GitHubFileChangeStatus.REMOVED,
+      path: "docs/note.md",
+      previousPath: null,
+      sha: null,
+    },
+  ]);
+});
+
+test("公開範囲内でのリネームを絞り込むとそのまま残ること", () => {
+  const change = {
+    status: GitHubFileChangeStatus.RENAMED,
+    path: "docs/b.md",
+    previousPath: "docs/a.md",
+    sha: "a",
+  };
+  expect(scopeFileChanges(docsScope, [change])).toEqual([change]);
+});
@@ -0,0 +1,48 @@
+import { expect, test } from "vitest";
+import { createSnippet } from "../create-snippet";
+
+test("キーワードに一致する本文からスニペットを作成すると一致した箇所が強調されること", () => {
+  expect(createSnippet("Hello world, hello again", ["hello"])).toEqual([
+    { text: "Hello", highlight: true },
+    { text: " world, ", highlight: false },
+    { text: "hello", highlight: true },
+    { text: " again", highlight: false },
+  ]);
+});
+
+test("Markdownの記法とコードブロックを含む本文からスニペットを作成すると取り除かれること", () => {
+  expect(
+    createSnippet(
+      "# Title\n\n```ts\nconst a = 1;\n```\n\n[link](https://example.com) **bold**",
+      [],
+    ),
+  ).toEqual([{ text: "Title link bold", highlight: false }]);
+});
+
+test("長い本文からスニペットを作成するとキーワードの周辺が抜き出され省略した部分が示されること", () => {
+  const body = `${"a ".repeat(100)}target${" b".repeat(100)}`;
+  const snippet = createSnippet(body, ["target"], 40);
+
+  expect(snippet[0]).toEqual({ text: "...", highlight: false });
+  expect(snippet.find((segment) => segment.highlight)?.text).toBe("target");
+  expect(snippet.at(-1)).toEqual({ text: " ...", highlight: false });
+  expect(
+    snippet
+      .slice(1, -1)
+      .map((segment) => segment.text)
+      .join(""),
+  ).toHaveLength(40);
+});
+
+test("キーワードに一致しない本文からスニペットを作成すると本文の先頭が返ること", () => {
+  expect(createSnippet("abc def", ["xyz"])).toEqual([
+    { text: "abc def", highlight: false },
+  ]);
+});
+
+test("正規表現の特殊文字を含むキーワードでスニペットを作成するとそのまま検索されること", () => {
+  expect(createSnippet("a+b and ab", ["a+b"])).toEqual([
+    { text: "a+b", highlight: true },
+    { text: " and ab", highlight: false },
+  ]);
+});
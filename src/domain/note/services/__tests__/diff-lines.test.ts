@@ -0,0 +1,41 @@
+import { expect, test } from "vitest";
+import { DiffLineType, diffLines } from "../diff-lines";
+
+const summarize = (before: string, after: string) =>
+  diffLines(before, after).map(
+    ({ type, text, oldNumber, newNumber }) =>
+      `${type === DiffLineType.ADDED ? "+" : type === DiffLineType.REMOVED ? "-" : " "}${text} ${oldNumber ?? "_"} ${newNumber ?? "_"}`,
+  );
+
+test("同じテキストを比較するとすべて変更なしの行になること", () => {
+  expect(summarize("a\nb\n", "a\nb")).toEqual([" a 1 1", " b 2 2"]);
+});
+
+test("空のテキストと比較するとすべて追加または削除の行になること", () => {
+  expect(summarize("", "a\nb\n")).toEqual(["+a _ 1", "+b _ 2"]);
+  expect(summarize("a", "")).toEqual(["-a 1 _"]);
+});
+
+test("行を変更したテキストを比較すると削除と追加の行が行番号と共に返ること", () => {
+  expect(summarize("a\nb\nc\nd", "a\nx\nc\nd\ne")).toEqual([
+    " a 1 1",
+    "-b 2 _",
+    "+x _ 2",
+    " c 3 3",
+    " d 4 4",
+    "+e _ 5",
+  ]);
+});
+
+test("行を並べ替えたテキストを比較すると最長共通部分列が変更なしの行になること", () => {
+  expect(summarize("a\nb\nc", "b\nc\na")).toEqual([
+    "-a 1 _",
+    " b 2 1",
+    " c 3 2",
+    "+a _ 3",
+  ]);
+});
+
+test("改行コードのみ異なるテキストを比較すると変更なしの行になること", () => {
+  expect(summarize("a\r\nb\r\n", "a\nb\n")).toEqual([" a 1 1", " b 2 2"]);
+});
@@ -0,0 +1,44 @@
+import { expect, test } from "vitest";
+import { NoteScope } from "../../models/note";
+import { parseMarkdown } from "../parse-markdown";
+
+function withFrontMatter(yaml: string) {
+  return `---\n${yaml}\n---\n# Title\n\nBody`;
+}
+
+test("フロントマターで公開範囲を指定したMarkdownを解析するとその公開範囲になること", () => {
+  expect(parseMarkdown(withFrontMatter("access: public")).scope).toBe(
+    NoteScope.PUBLIC,
+  );
+});
+
+test("公開範囲の指定がないMarkdownを解析すると非公開になること", () => {
+  expect(parseMarkdown("# Title\n\nBody").scope).toBe(NoteScope.PRIVATE);
+});
+
+test("不正な公開範囲を指定したMarkdownを解析すると非公開になること", () => {
+  expect(parseMarkdown(withFrontMatter("access: everyone")).scope).toBe(
+    NoteScope.PRIVATE,
+  );
+});
+
+test("公開の下書きを解析すると非公開になること", () => {
+  expect(
+    parseMarkdown(withFrontMatter("access: public\ndraft: true")).scope,
+  ).toBe(NoteScope.PRIVATE);
+});
+
+test.each(['"true"', "yes", "1", "[]"])(
+  "下書きの指定が解釈できない値 %s の場合に解析すると下書きとして非公開になること",
+  (draft) => {
+    expect(
+      parseMarkdown(withFrontMatter(`access: public\ndraft: ${draft}`)).scope,
+    ).toBe(NoteScope.PRIVATE);
+  },
+);
+
+test("draft: false を指定した公開のMarkdownを解析すると公開になること", () => {
+  expect(
+    parseMarkdown(withFrontMatter("access: public\ndraft: false")).scope,
+  ).toBe(NoteScope.PUBLIC);
+});
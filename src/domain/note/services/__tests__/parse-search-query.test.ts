@@ -0,0 +1,40 @@
+import { expect, test } from "vitest";
+import { getSearchKeywords, parseSearchQuery } from "../parse-search-query";
+
+test("単語、フレーズ、タグ、ブックを含むクエリを解析するとそれぞれに分かれること", () => {
+  expect(
+    parseSearchQuery('react "server components" tag:#web book:o/r hooks'),
+  ).toEqual({
+    terms: ["react", "hooks"],
+    phrases: ["server components"],
+    tags: ["web"],
+    books: ["o/r"],
+  });
+});
+
+test("大文字を含むフィルターを指定したクエリを解析するとフィルターとして扱われること", () => {
+  expect(parseSearchQuery("TAG:web Book:repo")).toMatchObject({
+    tags: ["web"],
+    books: ["repo"],
+  });
+});
+
+test("閉じられていないフレーズを含むクエリを解析すると末尾までがフレーズになること", () => {
+  expect(parseSearchQuery('a "b c').phrases).toEqual(["b c"]);
+});
+
+test("空のフレーズや値のないフィルターを含むクエリを解析すると無視されるか単語になること", () => {
+  expect(parseSearchQuery('"" tag:')).toEqual({
+    terms: ["tag:"],
+    phrases: [],
+    tags: [],
+    books: [],
+  });
+});
+
+test("フレーズと単語、タグを含むクエリから検索キーワードを取得するとフレーズと単語のみになること", () => {
+  expect(getSearchKeywords(parseSearchQuery('a "b c" tag:d'))).toEqual([
+    "b c",
+    "a",
+  ]);
+});
@@ -0,0 +1,45 @@
+import { expect, test } from "vitest";
+import { toNotePath } from "../../models/note";
+import {
+  normalizeWikiLinkTarget,
+  resolveWikiLink,
+  wikiLinkRegex,
+} from "../wiki-link";
+
+const notes = [
+  { path: toNotePath("guide/setup.md"), title: "Getting Started" },
+  { path: toNotePath("setup.md"), title: "Setup" },
+  { path: toNotePath("faq.md"), title: "guide/setup" },
+];
+
+test("見出しと拡張子を含むリンク先を正規化すると取り除かれて小文字になること", () => {
+  expect(normalizeWikiLinkTarget(" Guide/Setup.md#Install ")).toBe(
+    "guide/setup",
+  );
+});
+
+test("パスとタイトルに一致するノートがある場合に解決するとパスに一致するノートになること", () => {
+  expect(resolveWikiLink("guide/setup", notes)).toBe(notes[0]);
+});
+
+test("ファイル名とタイトルに一致するノートがある場合に解決するとファイル名に一致するノートになること", () => {
+  expect(resolveWikiLink("Setup", notes)).toBe(notes[1]);
+});
+
+test("タイトルのみ一致するノートがある場合に解決するとそのノートになること", () => {
+  expect(resolveWikiLink("getting started#Install", notes)).toBe(notes[0]);
+});
+
+test("一致するノートがない場合に解決するとundefinedになること", () => {
+  expect(resolveWikiLink("missing", notes)).toBeUndefined();
+});
+
+test("埋め込みを含むテキストからウィキリンクを探すと埋め込み以外のリンクが見つかること", () => {
+  const text = "[[Setup]] ![[image]] [[guide/setup|ガイド]]";
+  expect(
+    [...text.matchAll(wikiLinkRegex)].map((match) => [match[1], match[2]]),
+  ).toEqual([
+    ["Setup", undefined],
+    ["guide/setup", "ガイド"],
+  ]);
+});
@@ -0,0 +1,29 @@
+/**
+ * ノートから参照できるアセットの拡張子とContent-Type
+ */
+const assetContentTypes: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  ico: "image/x-icon",
+  bmp: "image/bmp",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  pdf: "application/pdf",
+};
+
+/**
+ * パスの拡張子からアセットのContent-Typeを取得する
+ * アセットとして扱わないファイルの場合はnullを返す
+ */
+export function getAssetContentType(path: string) {
+  const extension = path.split(".").at(-1)?.toLowerCase();
+  return (extension && assetContentTypes[extension]) || null;
+}
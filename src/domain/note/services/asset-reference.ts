@@ -0,0 +1,44 @@
+import { marked } from "marked";
+import { getAssetContentType } from "./asset-content-type";
+
+/**
+ * Markdownファイルからの相対パスをリポジトリ内のパスとフラグメントに解決する
+ * 外部URLやページ内リンクの場合はnullを返す
+ */
+export function resolveRepoPath(href: string, basePath: string) {
+  if (/^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(href)) {
+    return null;
+  }
+
+  try {
+    const base = basePath.split("/").map(encodeURIComponent).join("/");
+    const url = new URL(href, `https://repo/${base}`);
+    return {
+      path: decodeURIComponent(url.pathname).slice(1),
+      hash: url.hash,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Markdownの画像とリンク、カバー画像から参照しているアセットのリポジトリ内のパスを取り出す
+ */
+export function extractAssetPaths(
+  markdown: string,
+  basePath: string,
+  coverImage?: string | null,
+) {
+  const hrefs = coverImage ? [coverImage] : [];
+  marked.walkTokens(marked.lexer(markdown), (token) => {
+    if (token.type === "image" || token.type === "link") {
+      hrefs.push(token.href);
+    }
+  });
+
+  const paths = hrefs
+    .map((href) => resolveRepoPath(href, basePath)?.path)
+    .filter((path): path is string => !!path && !!getAssetContentType(path));
+  return [...new Set(paths)];
+}
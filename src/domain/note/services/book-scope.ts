@@ -0,0 +1,124 @@
+import {
+  type GitHubFileChange,
+  GitHubFileChangeStatus,
+} from "../dtos/github-file-change";
+import type { Book } from "../models/book";
+
+type BookScope = Pick<Book, "rootPath" | "ignore">;
+
+/**
+ * ルートパスを前後のスラッシュを除いた形に正規化する
+ * リポジトリのルートを指す場合はnullを返す
+ */
+export function normalizeRootPath(path: string | null | undefined) {
+  const normalized = (path || "")
+    .trim()
+    .replace(/^(\.?\/)+/, "")
+    .replace(/\/+$/, "");
+  return normalized && normalized !== "." ? normalized : null;
+}
+
+/**
+ * gitignore風のグロブを正規表現に変換する
+ * スラッシュを含まないパターンは任意の階層の名前に一致し、ディレクトリに一致した場合は配下のファイルも対象とする
+ */
+function globToRegExp(glob: string) {
+  const pattern = glob
+    .trim()
+    .replace(/^(\.?\/)+/, "")
+    .replace(/\/+$/, "");
+  const anchored = pattern.includes("/");
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}(?:/.*)?$`);
+}
+
+/**
+ * ブックのルートパスからの相対パスを求める
+ * ルートパスの外にある場合はnullを返す
+ */
+function toScopedPath(scope: BookScope, path: string) {
+  if (!scope.rootPath) {
+    return path;
+  }
+  return path.startsWith(`${scope.rootPath}/`)
+    ? path.slice(scope.rootPath.length + 1)
+    : null;
+}
+
+/**
+ * ファイルがブックの公開範囲に含まれるかを判定する
+ */
+export function isInBookScope(scope: BookScope, path: string) {
+  const scopedPath = toScopedPath(scope, path);
+  return (
+    scopedPath !== null &&
+    !scope.ignore.some(
+      (glob) => glob.trim() && globToRegExp(glob).test(scopedPath),
+    )
+  );
+}
+
+/**
+ * ブックのルートパスからの相対パスをリポジトリ内のファイルパスに変換する
+ */
+export function resolveBookPath(scope: Pick<Book, "rootPath">, path: string) {
+  return scope.rootPath ? `${scope.rootPath}/${path}` : path;
+}
+
+/**
+ * Pushによる変更をブックの公開範囲に絞り込む
+ * 公開範囲をまたぐリネームは追加または削除として扱う
+ */
+export function scopeFileChanges(
+  scope: BookScope,
+  changes: GitHubFileChange[],
+): GitHubFileChange[] {
+  return changes.flatMap((change) => {
+    const inScope = isInBookScope(scope, change.path);
+    if (change.status !== GitHubFileChangeStatus.RENAMED) {
+      return inScope ? [change] : [];
+    }
+
+    const previousInScope =
+      !!change.previousPath && isInBookScope(scope, change.previousPath);
+    if (inScope && previousInScope) {
+      return [change];
+    }
+    if (inScope) {
+      return [
+        { ...change, status: GitHubFileChangeStatus.ADDED, previousPath: null },
+      ];
+    }
+    if (previousInScope && change.previousPath) {
+      return [
+        {
+          status: GitHubFileChangeStatus.REMOVED,
+          path: change.previousPath,
+          previousPath: null,
+          sha: null,
+        },
+      ];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,108 @@
+import type { Note } from "../models/note";
+import { toFilePath } from "../models/note";
+
+/**
+ * 目次に表示するノートの情報
+ */
+export type NoteTreeItem = Pick<Note, "path" | "title" | "sortOrder">;
+
+/**
+ * 目次のノード
+ * フォルダの場合はnoteがnullになる
+ */
+export type NoteTreeNode<T extends NoteTreeItem = NoteTreeItem> = {
+  name: string;
+  note: T | null;
+  children: NoteTreeNode<T>[];
+};
+
+type Rank = [number, number];
+
+function compareRank(a: Rank, b: Rank) {
+  return a[0] - b[0] || a[1] - b[1] || 0;
+}
+
+/**
+ * ノートのパスをフォルダごとに分けて目次を作る
+ * SUMMARY.mdでの出現順、_order、タイトルの順に並べる
+ * フォルダは配下のノートのうち最も前に来るものの位置に並べる
+ */
+export function buildNoteTree<T extends NoteTreeItem>(
+  notes: T[],
+  summary: string[] = [],
+): NoteTreeNode<T>[] {
+  const summaryIndex = new Map(summary.map((path, index) => [path, index]));
+  const root: NoteTreeNode<T> = { name: "", note: null, children: [] };
+
+  for (const note of notes) {
+    const segments = toFilePath(note.path).split("/");
+    let parent = root;
+    for (const segment of segments.slice(0, -1)) {
+      let folder = parent.children.find(
+        (child) => child.note === null && child.name === segment,
+      );
+      if (!folder) {
+        folder = { name: segment, note: null, children: [] };
+        parent.children.push(folder);
+      }
+      parent = folder;
+    }
+    parent.children.push({
+      name: segments.at(-1) || note.path,
+      note,
+      children: [],
+    });
+  }
+
+  const sort = (node: NoteTreeNode<T>): Rank => {
+    const ranks = new Map(node.children.map((child) => [child, sort(child)]));
+    node.children.sort(
+      (a, b) =>
+        compareRank(ranks.get(a) as Rank, ranks.get(b) as Rank) ||
+        (a.note?.title || a.name).localeCompare(b.note?.title || b.name),
+    );
+
+    if (node.note) {
+      return [
+        summaryIndex.get(toFilePath(node.note.path)) ??
+          Number.POSITIVE_INFINITY,
+        node.note.sortOrder ?? Number.POSITIVE_INFINITY,
+      ];
+    }
+
+    return [...ranks.values()].reduce<Rank>(
+      (min, rank) => (compareRank(rank, min) < 0 ? rank : min),
+      [Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY],
+    );
+  };
+  sort(root);
+
+  return root.children;
+}
+
+/**
+ * 目次を読む順に並べたノート一覧にする
+ */
+export function flattenNoteTree<T extends NoteTreeItem>(
+  nodes: NoteTreeNode<T>[],
+): T[] {
+  return nodes.flatMap((node) => [
+    ...(node.note ? [node.note] : []),
+    ...flattenNoteTree(node.children),
+  ]);
+}
+
+/**
+ * 目次の順序で前後のノートを探す
+ */
+export function findAdjacentNotes<T extends NoteTreeItem>(
+  nodes: NoteTreeNode<T>[],
+  path: string,
+) {
+  const notes = flattenNoteTree(nodes);
+  const index = notes.findIndex((note) => note.path === path);
+  return {
+    previous: index > 0 ? notes[index - 1] : null,
+    next: index >= 0 && index < notes.length - 1 ? notes[index + 1] : null,
+  };
+}
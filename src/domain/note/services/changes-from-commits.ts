@@ -0,0 +1,44 @@
+import type { GitHubCommit } from "../dtos/github-commit";
+import {
+  type GitHubFileChange,
+  GitHubFileChangeStatus,
+} from "../dtos/github-file-change";
+
+/**
+ * Pushされたコミット一覧からファイルごとの最終的な変更をまとめる
+ * コミット一覧にはBlob SHAが含まれないため、リネームは検出しない
+ */
+export function changesFromCommits(
+  commits: GitHubCommit[],
+): GitHubFileChange[] {
+  const statuses = new Map<string, GitHubFileChangeStatus>();
+
+  for (const commit of commits) {
+    for (const path of commit.added) {
+      statuses.set(
+        path,
+        statuses.get(path) === GitHubFileChangeStatus.REMOVED
+          ? GitHubFileChangeStatus.MODIFIED
+          : GitHubFileChangeStatus.ADDED,
+      );
+    }
+    for (const path of commit.modified) {
+      statuses.set(
+        path,
+        statuses.get(path) === GitHubFileChangeStatus.ADDED
+          ? GitHubFileChangeStatus.ADDED
+          : GitHubFileChangeStatus.MODIFIED,
+      );
+    }
+    for (const path of commit.removed) {
+      statuses.set(path, GitHubFileChangeStatus.REMOVED);
+    }
+  }
+
+  return [...statuses].map(([path, status]) => ({
+    status,
+    path,
+    previousPath: null,
+    sha: null,
+  }));
+}
@@ -0,0 +1,53 @@
+import type { SearchSnippet } from "../dtos/search-query";
+
+/**
+ * 本文からキーワードの周辺を抜き出し、一致箇所を示す抜粋を作る
+ * 一致しない場合は本文の先頭を返す
+ */
+export function createSnippet(
+  body: string,
+  keywords: string[],
+  length = 160,
+): SearchSnippet {
+  const text = body
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#*_`>|~]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const escaped = keywords
+    .filter((keyword) => keyword)
+    .map((keyword) => keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const regex = escaped.length > 0 ? new RegExp(escaped.join("|"), "gi") : null;
+
+  const first = regex ? text.search(regex) : -1;
+  const start = Math.max(0, first - Math.floor(length / 4));
+  const excerpt = text.slice(start, start + length);
+  const prefix = start > 0 ? "..." : "";
+  const suffix = start + length < text.length ? " ..." : "";
+
+  if (!regex || first < 0) {
+    return [{ text: `${prefix}${excerpt}${suffix}`, highlight: false }];
+  }
+
+  const snippet: SearchSnippet = [];
+  let index = 0;
+  for (const match of excerpt.matchAll(regex)) {
+    if (match.index > index) {
+      snippet.push({
+        text: excerpt.slice(index, match.index),
+        highlight: false,
+      });
+    }
+    snippet.push({ text: match[0], highlight: true });
+    index = match.index + match[0].length;
+  }
+  snippet.push({ text: excerpt.slice(index), highlight: false });
+
+  return [
+    { text: prefix, highlight: false },
+    ...snippet,
+    { text: suffix, highlight: false },
+  ].filter((segment) => segment.text);
+}
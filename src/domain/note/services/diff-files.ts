@@ -0,0 +1,29 @@
+import type { GitHubFile } from "../dtos/github-tree";
+import type { BookFile } from "../models/book-file";
+
+/**
+ * 同期済みのファイルと現在のツリーの差分
+ */
+export type FileDiff = {
+  changed: GitHubFile[];
+  removed: string[];
+};
+
+/**
+ * 同期済みのファイルと現在のツリーのファイルをBlob SHAで比較する
+ * 追加・変更されたファイルと削除されたファイルのパスを返す
+ */
+export function diffFiles(
+  previous: Pick<BookFile, "path" | "sha">[],
+  current: GitHubFile[],
+): FileDiff {
+  const previousShas = new Map(previous.map((file) => [file.path, file.sha]));
+  const currentPaths = new Set(current.map((file) => file.path));
+
+  return {
+    changed: current.filter((file) => previousShas.get(file.path) !== file.sha),
+    removed: previous
+      .map((file) => file.path)
+      .filter((path) => !currentPaths.has(path)),
+  };
+}
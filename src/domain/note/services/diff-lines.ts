@@ -0,0 +1,139 @@
+/**
+ * 差分の行の種類
+ */
+export const DiffLineType = {
+  ADDED: "added",
+  REMOVED: "removed",
+  UNCHANGED: "unchanged",
+} as const;
+
+export type DiffLineType = (typeof DiffLineType)[keyof typeof DiffLineType];
+
+/**
+ * 差分の行
+ * 行番号は変更前・変更後のテキストでの1始まりの番号
+ */
+export type DiffLine = {
+  type: DiffLineType;
+  text: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+};
+
+// 最長共通部分列の計算量の上限。超えた場合は変更箇所をまとめて置き換えとして扱う
+const maxCells = 4_000_000;
+
+function splitLines(text: string) {
+  return text ? text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n") : [];
+}
+
+/**
+ * 2つのテキストを行単位で比較する
+ * 前後の共通部分を除いた範囲で最長共通部分列を求める
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const lines: DiffLine[] = [];
+  const unchanged = (oldIndex: number, newIndex: number) =>
+    lines.push({
+      type: DiffLineType.UNCHANGED,
+      text: oldLines[oldIndex],
+      oldNumber: oldIndex + 1,
+      newNumber: newIndex + 1,
+    });
+  const removed = (oldIndex: number) =>
+    lines.push({
+      type: DiffLineType.REMOVED,
+      text: oldLines[oldIndex],
+      oldNumber: oldIndex + 1,
+      newNumber: null,
+    });
+  const added = (newIndex: number) =>
+    lines.push({
+      type: DiffLineType.ADDED,
+      text: newLines[newIndex],
+      oldNumber: null,
+      newNumber: newIndex + 1,
+    });
+
+  for (let i = 0; i < start; i++) {
+    unchanged(i, i);
+  }
+
+  const rows = oldEnd - start;
+  const columns = newEnd - start;
+  if (rows * columns > maxCells) {
+    for (let i = start; i < oldEnd; i++) {
+      removed(i);
+    }
+    for (let j = start; j < newEnd; j++) {
+      added(j);
+    }
+  } else {
+    // lengths[i][j]は変更前のi行目以降と変更後のj行目以降の最長共通部分列の長さ
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          oldLines[start + i] === newLines[start + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * width + j],
+                lengths[i * width + j + 1],
+              );
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < columns) {
+      if (
+        i < rows &&
+        j < columns &&
+        oldLines[start + i] === newLines[start + j]
+      ) {
+        unchanged(start + i, start + j);
+        i++;
+        j++;
+      } else if (
+        j >= columns ||
+        (i < rows && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+      ) {
+        removed(start + i);
+        i++;
+      } else {
+        added(start + j);
+        j++;
+      }
+    }
+  }
+
+  for (let i = oldEnd; i < oldLines.length; i++) {
+    unchanged(i, newEnd + i - oldEnd);
+  }
+
+  return lines;
+}
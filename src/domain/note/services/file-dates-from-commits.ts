@@ -0,0 +1,30 @@
+import type { GitHubCommit } from "../dtos/github-commit";
+import type { GitHubFileDates } from "../dtos/github-file-dates";
+
+/**
+ * Pushされたコミット一覧からファイルごとのコミット日時をまとめる
+ * 最初のコミット日時はPush内でファイルが追加された場合のみ記録する
+ */
+export function fileDatesFromCommits(
+  commits: GitHubCommit[],
+): Map<string, GitHubFileDates> {
+  const dates = new Map<string, GitHubFileDates>();
+
+  for (const commit of commits) {
+    const committedAt = new Date(commit.timestamp);
+    for (const path of commit.added) {
+      dates.set(path, {
+        firstCommittedAt: dates.get(path)?.firstCommittedAt ?? committedAt,
+        lastCommittedAt: committedAt,
+      });
+    }
+    for (const path of commit.modified) {
+      dates.set(path, {
+        firstCommittedAt: dates.get(path)?.firstCommittedAt ?? null,
+        lastCommittedAt: committedAt,
+      });
+    }
+  }
+
+  return dates;
+}
@@ -0,0 +1,41 @@
+import type { User } from "@/domain/account/models/user";
+
+/**
+ * 限定公開ノートの閲覧者を表すキーワード
+ * それ以外の値はBlueskyのハンドルまたはDIDとして扱う
+ */
+export const NoteAudience = {
+  // 著者がBlueskyでフォローしているユーザー
+  FOLLOWING: "following",
+  // ブックのメンバー
+  COLLABORATORS: "collaborators",
+} as const;
+
+export type NoteAudience = (typeof NoteAudience)[keyof typeof NoteAudience];
+
+/**
+ * フロントマターに書かれた閲覧者の指定を正規化する
+ * ハンドルは先頭の@を除いて小文字にそろえ、解釈できない値はnullを返す
+ */
+export function normalizeAudience(value: string) {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("did:")) {
+    return trimmed;
+  }
+
+  const normalized = trimmed.replace(/^@/, "").toLowerCase();
+  return normalized && !/\s/.test(normalized) ? normalized : null;
+}
+
+/**
+ * 閲覧者がハンドルまたはDIDで直接指定されているかどうかを判定する
+ */
+export function isListedInAudience(
+  audience: string[],
+  viewer: Pick<User, "did" | "handle">,
+) {
+  return (
+    audience.includes(viewer.did) ||
+    audience.includes(viewer.handle.toLowerCase())
+  );
+}
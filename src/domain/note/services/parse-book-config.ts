@@ -0,0 +1,49 @@
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { BookConfig } from "../dtos/book-config";
+import { normalizeRootPath } from "./book-scope";
+
+/**
+ * 設定ファイルの名前
+ */
+export const bookConfigPath = ".atmd.yml";
+
+/**
+ * 設定ファイルのZodスキーマ
+ * 不正な値は無視し、他のフィールドの解釈に影響させない
+ */
+const configFileSchema = z.object({
+  root: z.string().optional().catch(undefined),
+  ignore: z
+    .union([
+      z.array(z.coerce.string()),
+      z.string().transform((ignore) => [ignore]),
+    ])
+    .transform((ignore) =>
+      ignore.map((glob) => glob.trim()).filter((glob) => glob),
+    )
+    .default([])
+    .catch([]),
+});
+
+/**
+ * .atmd.ymlを解釈する
+ * YAMLとして不正な場合は空の設定として扱う
+ */
+export function parseBookConfig(yaml: string): BookConfig {
+  let data: unknown;
+  try {
+    data = parseYaml(yaml);
+  } catch {
+    data = {};
+  }
+
+  const config = configFileSchema.parse(
+    typeof data === "object" && data !== null ? data : {},
+  );
+
+  return {
+    rootPath: normalizeRootPath(config.root),
+    ignore: config.ignore,
+  };
+}
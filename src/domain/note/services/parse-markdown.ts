@@ -1,41 +1,117 @@
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { dateSchema } from "../../types/date";
 import type { ParsedMarkdown } from "../dtos/parsed-markdown";
-import { noteScopeSchema } from "../models/note";
+import { NoteScope, noteScopeSchema } from "../models/note";
+import { normalizeAudience } from "./note-audience";
+import { normalizeWikiLinkTarget, wikiLinkRegex } from "./wiki-link";
+
+/**
+ * フロントマターのZodスキーマ
+ * 不正な値は無視し、他のフィールドの解釈に影響させない
+ */
+const frontMatterSchema = z.object({
+  access: noteScopeSchema.optional().catch(undefined),
+  audience: z
+    .union([
+      z.array(z.coerce.string()),
+      z.string().transform((audience) => audience.split(",")),
+    ])
+    .transform((audience) =>
+      audience
+        .map(normalizeAudience)
+        .filter((value): value is string => value !== null),
+    )
+    .default([])
+    .catch([]),
+  title: z.coerce.string().trim().nonempty().optional().catch(undefined),
+  description: z.coerce.string().trim().nonempty().optional().catch(undefined),
+  tags: z
+    .union([
+      z.array(z.coerce.string()),
+      z.string().transform((tags) => tags.split(",")),
+    ])
+    .transform((tags) =>
+      tags.map((tag) => tag.trim().replace(/^#/, "")).filter((tag) => tag),
+    )
+    .default([])
+    .catch([]),
+  date: dateSchema.optional().catch(undefined),
+  cover: z.string().trim().nonempty().optional().catch(undefined),
+  // 解釈できない値は公開しないよう下書きとして扱う
+  draft: z.boolean().default(false).catch(true),
+  _order: z.number().int().optional().catch(undefined),
+  toc: z.boolean().default(true).catch(true),
+});
+
+type FrontMatter = z.infer<typeof frontMatterSchema>;
+
+/**
+ * YAMLのフロントマターを解釈する
+ * YAMLとして不正な場合は空のフロントマターとして扱う
+ */
+function parseFrontMatter(yaml: string): FrontMatter {
+  let data: unknown;
+  try {
+    data = parseYaml(yaml);
+  } catch {
+    data = {};
+  }
+
+  return frontMatterSchema.parse(
+    typeof data === "object" && data !== null ? data : {},
+  );
+}
 
 export function parseMarkdown(markdown: string): ParsedMarkdown {
-  const frontMatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
+  const frontMatterRegex =
+    /^---\s*\r?\n([\s\S]*?)\r?\n---\s*(?:\r?\n|$)([\s\S]*)$/;
   const match = markdown.match(frontMatterRegex);
 
   const [frontMatter, content] = match ? match.slice(1) : ["", markdown];
+  const meta = parseFrontMatter(frontMatter);
 
-  const scopeMatch = frontMatter.match(/access:\s*(.*)$/m);
-  const scope =
-    noteScopeSchema.safeParse(scopeMatch?.at(1)?.trim().replace(/["']/g, ""))
-      .data || "private";
+  const scope = meta.draft ? NoteScope.PRIVATE : meta.access || "private";
 
   const headingRegex = /^#+\s+(.+)$/m;
-  const headingMatch = content.match(headingRegex);
+  const headingMatch = meta.title ? null : content.match(headingRegex);
 
-  const title = headingMatch ? headingMatch[1].trim() : null;
+  const title = meta.title || (headingMatch ? headingMatch[1].trim() : null);
   const body = headingMatch
     ? content.substring(headingMatch[0].length)
     : content;
 
+  const isInCodeBlock = (index: number) =>
+    (body.substring(0, index).match(/```/g) || []).length % 2 !== 0;
+
+  const links = body
+    .matchAll(wikiLinkRegex)
+    .filter((match) => !isInCodeBlock(match.index))
+    .map((match) => normalizeWikiLinkTarget(match[1]))
+    .filter((link) => link)
+    .toArray();
+
+  // ウィキリンク内の見出し指定をハッシュタグとして扱わない
+  const text = body.replace(wikiLinkRegex, (match) => " ".repeat(match.length));
   const hashtagRegex = /#([\p{L}\p{N}_-]+)/gu;
-  const hashtagMatch = body.matchAll(hashtagRegex);
-
-  const tags = hashtagMatch
-    .map((match) => {
-      const beforeMatch = body.substring(0, match.index);
-      const codeBlockCount = (beforeMatch.match(/```/g) || []).length;
-      return codeBlockCount % 2 === 0 ? match[1].trim() : null;
-    })
+  const hashtagMatch = text.matchAll(hashtagRegex);
+
+  const hashtags = hashtagMatch
+    .map((match) => (isInCodeBlock(match.index) ? null : match[1].trim()))
     .filter((tag): tag is string => tag !== null)
     .toArray();
 
   return {
     title,
     body: body.trim(),
-    tags,
+    tags: [...new Set([...meta.tags, ...hashtags])],
+    links: [...new Set(links)],
     scope,
+    audience: [...new Set(meta.audience)],
+    description: meta.description || null,
+    publishedAt: meta.date || null,
+    coverImage: meta.cover || null,
+    sortOrder: meta._order ?? null,
+    toc: meta.toc,
   };
 }
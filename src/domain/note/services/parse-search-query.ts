@@ -0,0 +1,42 @@
+import type { SearchQuery } from "../dtos/search-query";
+
+/**
+ * 検索文字列を検索条件に変換する
+ * "..."はフレーズ、tag:はタグ、book:はブック（owner/repoまたはrepo）で絞り込む
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const searchQuery: SearchQuery = {
+    terms: [],
+    phrases: [],
+    tags: [],
+    books: [],
+  };
+
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const [, phrase, word] = match;
+    if (phrase !== undefined) {
+      if (phrase.trim()) {
+        searchQuery.phrases.push(phrase.trim());
+      }
+      continue;
+    }
+
+    const filter = /^(tag|book):(.+)$/i.exec(word);
+    if (filter?.[1].toLowerCase() === "tag") {
+      searchQuery.tags.push(filter[2].replace(/^#/, ""));
+    } else if (filter?.[1].toLowerCase() === "book") {
+      searchQuery.books.push(filter[2]);
+    } else {
+      searchQuery.terms.push(word);
+    }
+  }
+
+  return searchQuery;
+}
+
+/**
+ * 本文の検索に使うキーワード（単語とフレーズ）を取得する
+ */
+export function getSearchKeywords(query: SearchQuery) {
+  return [...query.phrases, ...query.terms];
+}
@@ -0,0 +1,26 @@
+/**
+ * SUMMARY.mdのリンクを出現順にリポジトリ内のファイルパスとして取り出す
+ * 外部URLやMarkdown以外へのリンクは無視する
+ */
+export function parseSummary(markdown: string) {
+  const linkRegex = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+  const paths = markdown
+    .matchAll(linkRegex)
+    .map((match) => {
+      const href = match[1].split("#")[0];
+      if (/^([a-z][a-z\d+.-]*:|\/\/)/i.test(href) || !href.endsWith(".md")) {
+        return null;
+      }
+
+      try {
+        return decodeURIComponent(href).replace(/^(\.?\/)+/, "");
+      } catch {
+        return null;
+      }
+    })
+    .filter((path): path is string => path !== null)
+    .toArray();
+
+  return [...new Set(paths)];
+}
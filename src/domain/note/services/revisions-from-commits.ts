@@ -0,0 +1,41 @@
+import type { GitHubCommit } from "../dtos/github-commit";
+import type { GitHubFileChange } from "../dtos/github-file-change";
+import type { NoteRevision } from "../models/note-revision";
+
+/**
+ * コミットで変更されたファイルのリビジョン
+ */
+export type FileRevision = Omit<NoteRevision, "noteId" | "createdAt"> & {
+  path: string;
+};
+
+/**
+ * Pushされたコミット一覧から追加・変更されたファイルごとのリビジョンを作成する
+ * コミット一覧にはBlob SHAが含まれないため、Push後のBlob SHAは各ファイルを最後に変更したコミットにのみ記録する
+ */
+export function revisionsFromCommits(
+  commits: GitHubCommit[],
+  changes: GitHubFileChange[],
+): FileRevision[] {
+  const shas = new Map(changes.map((change) => [change.path, change.sha]));
+  const latestCommits = new Map<string, string>();
+  for (const commit of commits) {
+    for (const path of [...commit.added, ...commit.modified]) {
+      latestCommits.set(path, commit.id);
+    }
+  }
+
+  return commits.flatMap((commit) =>
+    [...new Set([...commit.added, ...commit.modified])].map((path) => ({
+      path,
+      commitSha: commit.id,
+      message: commit.message,
+      authorName: commit.author?.name || null,
+      authorLogin: commit.author?.username || null,
+      blobSha:
+        latestCommits.get(path) === commit.id ? shas.get(path) || null : null,
+      url: commit.url,
+      committedAt: new Date(commit.timestamp),
+    })),
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * 同期ジョブの最大試行回数
+ */
+export const maxSyncJobAttempts = 5;
+
+/**
+ * 実行中のまま放置された同期ジョブを再実行可能とみなすまでの時間（ミリ秒）
+ */
+export const syncJobLockTimeout = 10 * 60 * 1000;
+
+/**
+ * 失敗した同期ジョブの次回実行日時を求める
+ * 試行回数に応じて1分から指数的に待ち時間を延ばし、最大1時間とする
+ * 最大試行回数に達した場合はnullを返す
+ */
+export function getSyncJobRetryAt(attempts: number, now = new Date()) {
+  if (attempts >= maxSyncJobAttempts) {
+    return null;
+  }
+
+  const delay = Math.min(60 * 1000 * 2 ** (attempts - 1), 60 * 60 * 1000);
+  return new Date(now.getTime() + delay);
+}
@@ -0,0 +1,46 @@
+import type { Note } from "../models/note";
+import { toFilePath } from "../models/note";
+
+/**
+ * ウィキリンク（[[ノート名]]、[[パス|表示名]]）の正規表現
+ * 先頭に!が付く埋め込みはリンクとして扱わない
+ */
+export const wikiLinkRegex = /(?<!!)\[\[([^[\]|]+)(?:\|([^[\]]+))?\]\]/g;
+
+/**
+ * ウィキリンクのリンク先を比較用に正規化する
+ * 見出しへのフラグメントと拡張子を取り除き、小文字にする
+ */
+export function normalizeWikiLinkTarget(target: string) {
+  return target.split("#")[0].trim().replace(/\.md$/i, "").toLowerCase();
+}
+
+/**
+ * ノートをウィキリンクで参照するときのキー
+ * リポジトリ内のパス、ファイル名、タイトルの順に並ぶ
+ */
+export function wikiLinkKeys(note: Pick<Note, "path" | "title">) {
+  const filePath = toFilePath(note.path).replace(/\.md$/i, "");
+  return [filePath, filePath.split("/").at(-1) || filePath, note.title].map(
+    normalizeWikiLinkTarget,
+  );
+}
+
+/**
+ * ウィキリンクのリンク先のノートを探す
+ * パス、ファイル名、タイトルの順に一致するノートを優先する
+ */
+export function resolveWikiLink<T extends Pick<Note, "path" | "title">>(
+  target: string,
+  notes: T[],
+) {
+  const key = normalizeWikiLinkTarget(target);
+  const candidates = notes.map((note) => ({ note, keys: wikiLinkKeys(note) }));
+  for (const index of [0, 1, 2]) {
+    const found = candidates.find(({ keys }) => keys[index] === key);
+    if (found) {
+      return found.note;
+    }
+  }
+  return undefined;
+}
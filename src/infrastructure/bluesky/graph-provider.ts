@@ -0,0 +1,34 @@
+import type { BlueskyGraphProvider } from "@/domain/note/adapters/bluesky-graph-provider";
+import {
+  ExternalServiceError,
+  ExternalServiceErrorCode,
+} from "@/domain/types/error";
+import { Agent, AppBskyGraphDefs } from "@atproto/api";
+import { ResultAsync } from "neverthrow";
+
+export class DefaultBlueskyGraphProvider implements BlueskyGraphProvider {
+  private readonly publicAgent = new Agent("https://public.api.bsky.app");
+
+  isFollowing(actor: string, subject: string) {
+    return ResultAsync.fromPromise(
+      this.publicAgent.app.bsky.graph.getRelationships({
+        actor,
+        others: [subject],
+      }),
+      (error) =>
+        new ExternalServiceError(
+          "Bluesky",
+          ExternalServiceErrorCode.RESPONSE_INVALID,
+          "Failed to get relationships",
+          error,
+        ),
+    ).map((response) =>
+      response.data.relationships.some(
+        (relationship) =>
+          AppBskyGraphDefs.isRelationship(relationship) &&
+          relationship.did === subject &&
+          !!relationship.following,
+      ),
+    );
+  }
+}
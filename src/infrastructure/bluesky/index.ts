@@ -1,2 +1,3 @@
 export { DefaultBlueskyAuthProvider } from "./auth-provider";
 export { DefaultBlueskyPostProvider } from "./post-provider";
+export { DefaultBlueskyGraphProvider } from "./graph-provider";
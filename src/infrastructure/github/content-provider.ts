@@ -1,15 +1,42 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
 import type { GitHubContentProvider } from "@/domain/note/adapters/github-content-provider";
 import {
+  type GitHubFile,
+  type GitHubFileChange,
+  GitHubFileChangeStatus,
+  type GitHubFileCommit,
+  type GitHubFileDates,
   type GitHubRepository,
+  gitHubFileSchema,
   gitHubRepositorySchema,
 } from "@/domain/note/dtos";
+import { isNotePath } from "@/domain/note/models/note";
 import {
   ExternalServiceError,
   ExternalServiceErrorCode,
 } from "@/domain/types/error";
 import type { PaginationParams } from "@/domain/types/pagination";
-import { ResultAsync, err, ok } from "neverthrow";
-import { App, Octokit } from "octokit";
+import { ResultAsync, err, ok, okAsync } from "neverthrow";
+import { App, Octokit, RequestError } from "octokit";
+
+/**
+ * GitHub Appのクライアント
+ * インストールのトークンはクライアントごとにキャッシュされるため、リクエストをまたいで使い回す
+ */
+const apps = new Map<string, App>();
+
+/**
+ * リポジトリのインストールIDのキャッシュ
+ */
+const installationIds = new Map<string, { id: number; expiresAt: number }>();
+const installationIdTtl = 10 * 60 * 1000;
+
+/**
+ * リポジトリのWebhookで受け取るイベント
+ * リポジトリの名前の変更や移管をブックに反映するため、repositoryイベントも受け取る
+ * 変更した場合は既存のWebhookにも/api/job/webhooksで反映する
+ */
+const webhookEvents = ["push", "repository"];
 
 export class DefaultGitHubContentProvider implements GitHubContentProvider {
   private webhookUrl: string;
@@ -118,12 +145,19 @@ export class DefaultGitHubContentProvider implements GitHubContentProvider {
       );
   }
 
-  getContent(accessToken: string, owner: string, repo: string, path: string) {
+  getContent(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ) {
     return ResultAsync.fromPromise(
       new Octokit({ auth: accessToken }).rest.repos.getContent({
         owner,
         repo,
         path,
+        ref,
       }),
       (e) => e,
     )
@@ -159,111 +193,479 @@ export class DefaultGitHubContentProvider implements GitHubContentProvider {
     owner: string,
     repo: string,
     path: string,
+    ref?: string,
   ) {
+    return this.fetchContentByInstallation(
+      installationId,
+      owner,
+      repo,
+      path,
+      ref,
+    )
+      .map(({ content }) => content.toString())
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "GitHub",
+            ExternalServiceErrorCode.REQUEST_FAILED,
+            "Failed to get content",
+            error,
+          ),
+      );
+  }
+
+  getAssetByInstallation(
+    installationId: number,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ) {
+    return this.fetchContentByInstallation(
+      installationId,
+      owner,
+      repo,
+      path,
+      ref,
+    )
+      .map(({ content, sha }) => ({ content: new Uint8Array(content), sha }))
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "GitHub",
+            ExternalServiceErrorCode.REQUEST_FAILED,
+            "Failed to get asset",
+            error,
+          ),
+      );
+  }
+
+  getInstallationId(owner: string, repo: string) {
+    const key = `${owner}/${repo}`.toLowerCase();
+    const cached = installationIds.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return okAsync(cached.id);
+    }
+
     return ResultAsync.fromPromise(
-      new App({
+      this.getApp().octokit.rest.apps.getRepoInstallation({ owner, repo }),
+      (e) => e,
+    )
+      .andThen((response) =>
+        response.status === 200
+          ? ok(response.data.id)
+          : err(new Error(`HTTP status: ${response.status}`)),
+      )
+      .andTee((id) => {
+        installationIds.set(key, {
+          id,
+          expiresAt: Date.now() + installationIdTtl,
+        });
+      })
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "GitHub",
+            ExternalServiceErrorCode.REQUEST_FAILED,
+            "Failed to get installation",
+            error,
+          ),
+      );
+  }
+
+  private getApp() {
+    let app = apps.get(this.appId);
+    if (!app) {
+      app = new App({
         appId: this.appId,
         privateKey: this.privateKey,
-      }).getInstallationOctokit(installationId),
+      });
+      apps.set(this.appId, app);
+    }
+    return app;
+  }
+
+  /**
+   * インストールIDで認証してファイルのコンテンツを取得する
+   * 1MBを超えるファイルはContents APIがコンテンツを返さないため、Blobから取得する
+   */
+  private fetchContentByInstallation(
+    installationId: number,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ) {
+    return ResultAsync.fromPromise(
+      this.getApp().getInstallationOctokit(installationId),
+      (e) => e,
+    ).andThen((octokit) =>
+      ResultAsync.fromPromise(
+        octokit.rest.repos.getContent({
+          owner,
+          repo,
+          path,
+          ref,
+        }),
+        (e) => e,
+      )
+        .andThen((response) =>
+          response.status === 200
+            ? ok(response.data)
+            : err(new Error(`HTTP status: ${response.status}`)),
+        )
+        .andThen((data) =>
+          Array.isArray(data) || data.type !== "file"
+            ? err(new Error("Path is a directory, not a file"))
+            : ok(data),
+        )
+        .andThen((data) => {
+          if ("content" in data && data.content) {
+            return okAsync({
+              content: Buffer.from(data.content, "base64"),
+              sha: data.sha,
+            });
+          }
+
+          return ResultAsync.fromPromise(
+            octokit.rest.git.getBlob({ owner, repo, file_sha: data.sha }),
+            (e) => e,
+          ).andThen((response) =>
+            response.status === 200
+              ? ok({
+                  content: Buffer.from(
+                    response.data.content,
+                    response.data.encoding === "base64" ? "base64" : "utf-8",
+                  ),
+                  sha: data.sha,
+                })
+              : err(new Error(`HTTP status: ${response.status}`)),
+          );
+        }),
+    );
+  }
+
+  listPaths(accessToken: string, owner: string, repo: string, ref?: string) {
+    return this.getTree(accessToken, owner, repo, ref).map((tree) =>
+      tree.files.map((file) => file.path),
+    );
+  }
+
+  getTree(accessToken: string, owner: string, repo: string, ref?: string) {
+    const octokit = new Octokit({
+      auth: accessToken,
+    });
+
+    return ResultAsync.fromPromise(
+      octokit.rest.repos.getCommit({
+        owner,
+        repo,
+        ref: ref || "HEAD",
+      }),
+      (e) => e,
+    )
+      .andThen((response) =>
+        response.status === 200
+          ? ok(response.data)
+          : err(new Error(`HTTP status: ${response.status}`)),
+      )
+      .andThen((commit) =>
+        ResultAsync.fromPromise(
+          this.fetchFiles(octokit, owner, repo, commit.commit.tree.sha),
+          (e) => e,
+        ).map((files) => ({
+          commitSha: commit.sha,
+          treeSha: commit.commit.tree.sha,
+          files,
+        })),
+      )
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "GitHub",
+            ExternalServiceErrorCode.REQUEST_FAILED,
+            "Failed to fetch tree",
+            error,
+          ),
+      );
+  }
+
+  getBlob(accessToken: string, owner: string, repo: string, sha: string) {
+    return ResultAsync.fromPromise(
+      new Octokit({ auth: accessToken }).rest.git.getBlob({
+        owner,
+        repo,
+        file_sha: sha,
+      }),
+      (e) => e,
+    )
+      .andThen((response) =>
+        response.status === 200
+          ? ok(response.data)
+          : err(new Error(`HTTP status: ${response.status}`)),
+      )
+      .map((data) =>
+        Buffer.from(
+          data.content,
+          data.encoding === "base64" ? "base64" : "utf-8",
+        ).toString(),
+      )
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "GitHub",
+            ExternalServiceErrorCode.REQUEST_FAILED,
+            "Failed to get blob",
+            error,
+          ),
+      );
+  }
+
+  compareCommits(
+    installationId: number,
+    owner: string,
+    repo: string,
+    base: string,
+    head: string,
+  ) {
+    return ResultAsync.fromPromise(
+      this.getApp().getInstallationOctokit(installationId),
       (e) => e,
     )
       .andThen((octokit) =>
         ResultAsync.fromPromise(
-          octokit.rest.repos.getContent({
+          octokit.rest.repos.compareCommitsWithBasehead({
             owner,
             repo,
-            path,
+            basehead: `${base}...${head}`,
           }),
           (e) => e,
         ),
       )
       .andThen((response) =>
         response.status === 200
-          ? ok(response.data)
+          ? ok(response.data.files || [])
           : err(new Error(`HTTP status: ${response.status}`)),
       )
-      .andThen((data) =>
-        Array.isArray(data)
-          ? err(new Error("Path is a directory, not a file"))
-          : ok(data),
+      .andThen((files) =>
+        // 比較APIは最大300ファイルまでしか返さない
+        files.length >= 300
+          ? err(new Error("Too many files to compare"))
+          : ok(files),
       )
-      .andThen((data) =>
-        !("content" in data) || !data.content
-          ? err(new Error("Content not found in response"))
-          : ok(data.content),
+      .map((files) =>
+        files.flatMap((file): GitHubFileChange[] => {
+          const status = toFileChangeStatus(file.status);
+          return status
+            ? [
+                {
+                  status,
+                  path: file.filename,
+                  previousPath: file.previous_filename || null,
+                  sha: file.sha || null,
+                },
+              ]
+            : [];
+        }),
       )
-      .map((content) => Buffer.from(content, "base64").toString())
       .mapErr(
         (error) =>
           new ExternalServiceError(
             "GitHub",
             ExternalServiceErrorCode.REQUEST_FAILED,
-            "Failed to get content",
+            "Failed to compare commits",
             error,
           ),
       );
   }
 
-  listPaths(accessToken: string, owner: string, repo: string) {
-    const octokit = new Octokit({
-      auth: accessToken,
-    });
+  listCommits(
+    installationId: number,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+    limit = 30,
+  ) {
+    return ResultAsync.fromPromise(
+      this.getApp().getInstallationOctokit(installationId),
+      (e) => e,
+    )
+      .andThen((octokit) =>
+        ResultAsync.fromPromise(
+          octokit.rest.repos.listCommits({
+            owner,
+            repo,
+            path,
+            sha: ref,
+            per_page: limit,
+          }),
+          (e) => e,
+        ),
+      )
+      .andThen((response) =>
+        response.status === 200
+          ? ok(response.data)
+          : err(new Error(`HTTP status: ${response.status}`)),
+      )
+      .map((commits) =>
+        commits.map(
+          (commit): GitHubFileCommit => ({
+            sha: commit.sha,
+            message: commit.commit.message,
+            authorName: commit.commit.author?.name || null,
+            authorLogin:
+              commit.author && "login" in commit.author
+                ? commit.author.login
+                : null,
+            committedAt: new Date(
+              commit.commit.author?.date || commit.commit.committer?.date || 0,
+            ),
+            url: commit.html_url,
+          }),
+        ),
+      )
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "GitHub",
+            ExternalServiceErrorCode.REQUEST_FAILED,
+            "Failed to list commits",
+            error,
+          ),
+      );
+  }
 
+  /**
+   * 1件ずつのページで最新のコミットを取得し、最終ページから最初のコミットを取得する
+   */
+  getFileDates(
+    installationId: number,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ) {
     return ResultAsync.fromPromise(
-      this.fetchPaths(octokit, owner, repo, "main"),
+      this.getApp().getInstallationOctokit(installationId),
       (e) => e,
-    ).mapErr(
-      (error) =>
-        new ExternalServiceError(
-          "GitHub",
-          ExternalServiceErrorCode.REQUEST_FAILED,
-          "Failed to fetch paths",
-          error,
+    )
+      .andThen((octokit) =>
+        ResultAsync.fromPromise(
+          (async () => {
+            const latest = await octokit.rest.repos.listCommits({
+              owner,
+              repo,
+              path,
+              sha: ref,
+              per_page: 1,
+            });
+            const lastPage = latest.headers.link?.match(
+              /[?&]page=(\d+)[^>]*>;\s*rel="last"/,
+            )?.[1];
+            const first = lastPage
+              ? await octokit.rest.repos.listCommits({
+                  owner,
+                  repo,
+                  path,
+                  sha: ref,
+                  per_page: 1,
+                  page: Number.parseInt(lastPage, 10),
+                })
+              : latest;
+            return { first: first.data[0], last: latest.data[0] };
+          })(),
+          (e) => e,
         ),
-    );
+      )
+      .map(({ first, last }): GitHubFileDates => {
+        const toDate = (commit: typeof first | undefined) => {
+          const date =
+            commit?.commit.author?.date || commit?.commit.committer?.date;
+          return date ? new Date(date) : null;
+        };
+        return {
+          firstCommittedAt: toDate(first),
+          lastCommittedAt: toDate(last),
+        };
+      })
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "GitHub",
+            ExternalServiceErrorCode.REQUEST_FAILED,
+            "Failed to get file dates",
+            error,
+          ),
+      );
+  }
+
+  /**
+   * ツリー内のMarkdownファイルを再帰的に取得する
+   * レスポンスが切り詰められた場合はディレクトリごとに辿る
+   */
+  private async fetchFiles(
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    sha: string,
+  ): Promise<GitHubFile[]> {
+    const response = await octokit.rest.git.getTree({
+      owner,
+      repo,
+      tree_sha: sha,
+      recursive: "true",
+    });
+
+    if (response.status !== 200) {
+      throw new Error(`HTTP status: ${response.status}`);
+    }
+
+    if (response.data.truncated) {
+      return this.walkFiles(octokit, owner, repo, sha);
+    }
+
+    return response.data.tree
+      .filter(
+        (item) => item.type === "blob" && !!item.path && isNotePath(item.path),
+      )
+      .map((item) => gitHubFileSchema.safeParse(item).data)
+      .filter((file): file is GitHubFile => file !== undefined);
   }
 
-  async fetchPaths(
+  private async walkFiles(
     octokit: Octokit,
     owner: string,
     repo: string,
     sha: string,
     parent?: string,
-  ): Promise<string[]> {
-    try {
-      const response = await octokit.rest.git.getTree({
-        owner,
-        repo,
-        tree_sha: sha,
-      });
+  ): Promise<GitHubFile[]> {
+    const response = await octokit.rest.git.getTree({
+      owner,
+      repo,
+      tree_sha: sha,
+    });
 
-      if (response.status !== 200) {
-        return [];
-      }
-
-      return (
-        await Promise.all(
-          response.data.tree.map(async (item) => {
-            const fullPath = parent ? `${parent}/${item.path}` : item.path;
-            if (
-              item.type === "blob" &&
-              item.path?.endsWith(".md") &&
-              item.path !== "README.md"
-            ) {
-              return [fullPath];
-            }
-
-            if (item.type === "tree" && item.sha) {
-              return this.fetchPaths(octokit, owner, repo, item.sha, fullPath);
-            }
-
-            return [];
-          }),
-        )
-      ).flat();
-    } catch (error) {
-      return [];
+    if (response.status !== 200) {
+      throw new Error(`HTTP status: ${response.status}`);
     }
+
+    return (
+      await Promise.all(
+        response.data.tree.map(async (item) => {
+          const fullPath = parent ? `${parent}/${item.path}` : item.path;
+          if (item.type === "blob" && item.sha && isNotePath(fullPath)) {
+            return [{ path: fullPath, sha: item.sha }];
+          }
+
+          if (item.type === "tree" && item.sha) {
+            return this.walkFiles(octokit, owner, repo, item.sha, fullPath);
+          }
+
+          return [];
+        }),
+      )
+    ).flat();
   }
 
   setupWebhook(accessToken: string, owner: string, repo: string) {
@@ -273,11 +675,8 @@ export class DefaultGitHubContentProvider implements GitHubContentProvider {
       }).rest.repos.createWebhook({
         owner,
         repo,
-        config: {
-          url: this.webhookUrl,
-          content_type: "json",
-        },
-        events: ["push"],
+        config: this.getWebhookConfig(),
+        events: webhookEvents,
       }),
       (e) => e,
     )
@@ -297,8 +696,65 @@ export class DefaultGitHubContentProvider implements GitHubContentProvider {
       );
   }
 
-  validateWebhook(secret: string) {
-    return secret === this.webhookSecret;
+  updateWebhook(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    webhookId: number,
+  ) {
+    return ResultAsync.fromPromise(
+      new Octokit({
+        auth: accessToken,
+      }).rest.repos.updateWebhook({
+        owner,
+        repo,
+        hook_id: webhookId,
+        config: this.getWebhookConfig(),
+        events: webhookEvents,
+        active: true,
+      }),
+      (e) => e,
+    )
+      .andThen((response) =>
+        response.status === 200
+          ? ok(true)
+          : err(new Error(`HTTP status: ${response.status}`)),
+      )
+      .orElse((error) =>
+        error instanceof RequestError && error.status === 404
+          ? ok(false)
+          : err(error),
+      )
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "GitHub",
+            ExternalServiceErrorCode.REQUEST_FAILED,
+            "Failed to update webhook",
+            error,
+          ),
+      );
+  }
+
+  /**
+   * Webhookの送信先とペイロードの署名に使うシークレット
+   */
+  private getWebhookConfig() {
+    return {
+      url: this.webhookUrl,
+      content_type: "json",
+      secret: this.webhookSecret,
+    };
+  }
+
+  validateWebhook(payload: string, signature: string) {
+    const expected = Buffer.from(
+      `sha256=${createHmac("sha256", this.webhookSecret).update(payload).digest("hex")}`,
+    );
+    const actual = Buffer.from(signature);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
   }
 
   deleteWebhook(
@@ -334,6 +790,23 @@ export class DefaultGitHubContentProvider implements GitHubContentProvider {
   }
 }
 
+function toFileChangeStatus(status: string) {
+  switch (status) {
+    case "added":
+    case "copied":
+      return GitHubFileChangeStatus.ADDED;
+    case "modified":
+    case "changed":
+      return GitHubFileChangeStatus.MODIFIED;
+    case "removed":
+      return GitHubFileChangeStatus.REMOVED;
+    case "renamed":
+      return GitHubFileChangeStatus.RENAMED;
+    default:
+      return null;
+  }
+}
+
 function getSortForListRepositories(name?: string) {
   if (["created", "updated", "pushed", "full_name"].includes(name || "")) {
     return name as "created" | "updated" | "pushed" | "full_name";
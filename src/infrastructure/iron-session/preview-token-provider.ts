@@ -0,0 +1,79 @@
+import type { PreviewTokenProvider } from "@/domain/note/adapters/preview-token-provider";
+import { type NotePreview, notePreviewSchema } from "@/domain/note/dtos";
+import {
+  ExternalServiceError,
+  ExternalServiceErrorCode,
+} from "@/domain/types/error";
+import { validate } from "@/domain/types/validation";
+import { sealData, unsealData } from "iron-session";
+import { ResultAsync, errAsync } from "neverthrow";
+
+export class IronSessionPreviewTokenProvider implements PreviewTokenProvider {
+  private readonly secret: string;
+
+  constructor(params: {
+    config: {
+      secret: string;
+    };
+  }) {
+    this.secret = params.config.secret;
+  }
+
+  /**
+   * プレビューの内容を暗号化して署名する
+   * 有効期限はトークン自体にも埋め込む
+   */
+  sign(preview: NotePreview) {
+    const ttl = Math.floor((preview.expiresAt.getTime() - Date.now()) / 1000);
+    if (ttl <= 0) {
+      return errAsync(
+        new ExternalServiceError(
+          "PreviewTokenProvider",
+          ExternalServiceErrorCode.REQUEST_FAILED,
+          "Preview has already expired",
+        ),
+      );
+    }
+
+    return ResultAsync.fromPromise(
+      sealData(
+        { ...preview, expiresAt: preview.expiresAt.toISOString() },
+        { password: this.secret, ttl },
+      ),
+      (error) =>
+        new ExternalServiceError(
+          "PreviewTokenProvider",
+          ExternalServiceErrorCode.REQUEST_FAILED,
+          "Failed to sign preview token",
+          error instanceof Error ? error : undefined,
+        ),
+    );
+  }
+
+  /**
+   * トークンを復号して検証する
+   * 期限切れや改ざんされたトークンは空のデータとして復号されるため検証で弾かれる
+   */
+  verify(token: string) {
+    return ResultAsync.fromPromise(
+      unsealData<unknown>(token, { password: this.secret }),
+      (error) =>
+        new ExternalServiceError(
+          "PreviewTokenProvider",
+          ExternalServiceErrorCode.RESPONSE_INVALID,
+          "Failed to verify preview token",
+          error instanceof Error ? error : undefined,
+        ),
+    )
+      .andThen((data) => validate(notePreviewSchema, data))
+      .mapErr(
+        (error) =>
+          new ExternalServiceError(
+            "PreviewTokenProvider",
+            ExternalServiceErrorCode.RESPONSE_INVALID,
+            "Invalid preview token",
+            error instanceof Error ? error : undefined,
+          ),
+      );
+  }
+}
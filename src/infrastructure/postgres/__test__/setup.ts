@@ -34,10 +34,20 @@ export async function cleanupTestDatabase(client: PGlite): Promise<void> {
 
   // 各テーブルのデータを削除
   await client.query("TRUNCATE TABLE posts CASCADE");
+  await client.query("TRUNCATE TABLE note_revisions CASCADE");
+  await client.query("TRUNCATE TABLE note_links CASCADE");
+  await client.query("TRUNCATE TABLE note_assets CASCADE");
   await client.query("TRUNCATE TABLE note_tags CASCADE");
   await client.query("TRUNCATE TABLE tags CASCADE");
   await client.query("TRUNCATE TABLE notes CASCADE");
+  await client.query("TRUNCATE TABLE book_files CASCADE");
+  await client.query("TRUNCATE TABLE note_versions CASCADE");
+  await client.query("TRUNCATE TABLE note_redirects CASCADE");
+  await client.query("TRUNCATE TABLE webhook_deliveries CASCADE");
+  await client.query("TRUNCATE TABLE sync_jobs CASCADE");
   await client.query("TRUNCATE TABLE sync_statuses CASCADE");
+  await client.query("TRUNCATE TABLE book_members CASCADE");
+  await client.query("TRUNCATE TABLE book_redirects CASCADE");
   await client.query("TRUNCATE TABLE book_details CASCADE");
   await client.query("TRUNCATE TABLE books CASCADE");
   await client.query("TRUNCATE TABLE github_connections CASCADE");
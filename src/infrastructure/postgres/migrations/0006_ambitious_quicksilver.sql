@@ -0,0 +1,3 @@
+ALTER TABLE "notes" ADD COLUMN "description" text;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "cover_image" text;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "published_at" timestamp;
\ No newline at end of file
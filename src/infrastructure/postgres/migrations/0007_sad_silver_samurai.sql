@@ -0,0 +1,12 @@
+CREATE TABLE "book_files" (
+	"book_id" uuid NOT NULL,
+	"path" text NOT NULL,
+	"sha" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "book_files_book_id_path_pk" PRIMARY KEY("book_id","path")
+);
+--> statement-breakpoint
+ALTER TABLE "sync_statuses" ADD COLUMN "commit_sha" text;--> statement-breakpoint
+ALTER TABLE "sync_statuses" ADD COLUMN "tree_sha" text;--> statement-breakpoint
+ALTER TABLE "book_files" ADD CONSTRAINT "book_files_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "note_redirects" (
+	"book_id" uuid NOT NULL,
+	"from_path" text NOT NULL,
+	"to_path" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "note_redirects_book_id_from_path_pk" PRIMARY KEY("book_id","from_path")
+);
+--> statement-breakpoint
+ALTER TABLE "posts" DROP CONSTRAINT "book_notepath_fkey";
+--> statement-breakpoint
+ALTER TABLE "note_redirects" ADD CONSTRAINT "note_redirects_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "posts" ADD CONSTRAINT "book_notepath_fkey" FOREIGN KEY ("book_id","note_path") REFERENCES "public"."notes"("book_id","path") ON DELETE cascade ON UPDATE cascade;
\ No newline at end of file
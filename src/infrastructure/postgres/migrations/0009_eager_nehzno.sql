@@ -0,0 +1,8 @@
+CREATE TABLE "note_links" (
+	"note_id" uuid NOT NULL,
+	"target" text NOT NULL,
+	CONSTRAINT "note_links_note_id_target_pk" PRIMARY KEY("note_id","target")
+);
+--> statement-breakpoint
+ALTER TABLE "note_links" ADD CONSTRAINT "note_links_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "note_links_target_idx" ON "note_links" USING btree ("target");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "book_details" ADD COLUMN "summary" text;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "sort_order" integer;
\ No newline at end of file
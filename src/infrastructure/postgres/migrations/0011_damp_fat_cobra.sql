@@ -0,0 +1 @@
+ALTER TABLE "notes" ADD COLUMN "toc" boolean DEFAULT true NOT NULL;
\ No newline at end of file
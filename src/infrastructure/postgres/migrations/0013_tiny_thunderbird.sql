@@ -0,0 +1,13 @@
+CREATE TYPE "public"."webhook_delivery_status" AS ENUM('processing', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TABLE "webhook_deliveries" (
+	"id" text PRIMARY KEY NOT NULL,
+	"book_id" uuid,
+	"event" text NOT NULL,
+	"status" "webhook_delivery_status" DEFAULT 'processing' NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_deliveries_book_id_idx" ON "webhook_deliveries" USING btree ("book_id","created_at");
\ No newline at end of file
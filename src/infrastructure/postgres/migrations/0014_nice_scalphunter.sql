@@ -0,0 +1,19 @@
+CREATE TYPE "public"."sync_job_status" AS ENUM('queued', 'running', 'succeeded', 'failed');--> statement-breakpoint
+ALTER TYPE "public"."sync_status" ADD VALUE 'syncing' BEFORE 'synced';--> statement-breakpoint
+CREATE TABLE "sync_jobs" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"book_id" uuid NOT NULL,
+	"delivery_id" text,
+	"payload" jsonb NOT NULL,
+	"status" "sync_job_status" DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sync_jobs" ADD CONSTRAINT "sync_jobs_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sync_jobs_status_idx" ON "sync_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "sync_jobs_book_id_idx" ON "sync_jobs" USING btree ("book_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "book_redirects" (
+	"owner" text NOT NULL,
+	"repo" text NOT NULL,
+	"book_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "book_redirects_owner_repo_pk" PRIMARY KEY("owner","repo")
+);
+--> statement-breakpoint
+ALTER TABLE "book_redirects" ADD CONSTRAINT "book_redirects_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
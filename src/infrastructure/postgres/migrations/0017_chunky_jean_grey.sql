@@ -0,0 +1,2 @@
+ALTER TABLE "books" ADD COLUMN "root_path" text;--> statement-breakpoint
+ALTER TABLE "books" ADD COLUMN "ignore" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
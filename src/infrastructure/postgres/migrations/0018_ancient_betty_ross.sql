@@ -0,0 +1,3 @@
+DROP INDEX "owner_repo_idx";--> statement-breakpoint
+ALTER TABLE "books" ADD COLUMN "slug" text DEFAULT '' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "owner_repo_slug_idx" ON "books" USING btree ("owner","repo","slug");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TYPE "public"."book_member_role" AS ENUM('owner', 'editor');--> statement-breakpoint
+CREATE TABLE "book_members" (
+	"book_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" "book_member_role" DEFAULT 'editor' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "book_members_book_id_user_id_pk" PRIMARY KEY("book_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "book_members" ADD CONSTRAINT "book_members_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "book_members" ADD CONSTRAINT "book_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "book_members_user_id_idx" ON "book_members" USING btree ("user_id");--> statement-breakpoint
+INSERT INTO "book_members" ("book_id", "user_id", "role") SELECT "id", "user_id", 'owner' FROM "books";
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "note_revisions" (
+	"note_id" uuid NOT NULL,
+	"commit_sha" text NOT NULL,
+	"message" text NOT NULL,
+	"author_name" text,
+	"author_login" text,
+	"blob_sha" text,
+	"url" text NOT NULL,
+	"committed_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "note_revisions_note_id_commit_sha_pk" PRIMARY KEY("note_id","commit_sha")
+);
+--> statement-breakpoint
+ALTER TABLE "note_revisions" ADD CONSTRAINT "note_revisions_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "note_revisions_committed_at_idx" ON "note_revisions" USING btree ("note_id","committed_at");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "note_versions" (
+	"book_id" uuid NOT NULL,
+	"path" text NOT NULL,
+	"commit_sha" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "note_versions_book_id_path_commit_sha_pk" PRIMARY KEY("book_id","path","commit_sha")
+);
+--> statement-breakpoint
+ALTER TABLE "note_versions" ADD CONSTRAINT "note_versions_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "notes" ADD COLUMN "modified_at" timestamp;--> statement-breakpoint
+UPDATE "sync_statuses" SET "tree_sha" = NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "notes" ADD COLUMN "audience" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+DELETE FROM "book_files" WHERE "path" LIKE '%.md';--> statement-breakpoint
+UPDATE "sync_statuses" SET "tree_sha" = NULL;
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- 2階層以上のディレクトリにあるノートのパスを区切りで置き換え、旧パスからのリダイレクトを残す
+UPDATE "note_redirects" SET "to_path" = replace("to_path", '/', '--') WHERE "to_path" LIKE '%/%';--> statement-breakpoint
+INSERT INTO "note_redirects" ("book_id", "from_path", "to_path") SELECT "book_id", "path", replace("path", '/', '--') FROM "notes" WHERE "path" LIKE '%/%' AND NOT EXISTS (SELECT 1 FROM "notes" AS "n" WHERE "n"."book_id" = "notes"."book_id" AND "n"."path" = replace("notes"."path", '/', '--')) ON CONFLICT DO NOTHING;--> statement-breakpoint
+UPDATE "notes" SET "path" = replace("path", '/', '--') WHERE "path" LIKE '%/%' AND NOT EXISTS (SELECT 1 FROM "notes" AS "n" WHERE "n"."book_id" = "notes"."book_id" AND "n"."path" = replace("notes"."path", '/', '--'));--> statement-breakpoint
+UPDATE "posts" SET "note_path" = replace("note_path", '/', '--') WHERE "note_path" LIKE '%/%' AND EXISTS (SELECT 1 FROM "notes" WHERE "notes"."book_id" = "posts"."book_id" AND "notes"."path" = replace("posts"."note_path", '/', '--'));--> statement-breakpoint
+DELETE FROM "note_versions" WHERE "path" LIKE '%/%';--> statement-breakpoint
+-- ファイル名のエスケープが必要なノートは全件同期で作り直す
+DELETE FROM "book_files" WHERE "path" LIKE '%.md';--> statement-breakpoint
+UPDATE "sync_statuses" SET "tree_sha" = NULL;
@@ -0,0 +1,10 @@
+CREATE TABLE "note_assets" (
+	"note_id" uuid NOT NULL,
+	"path" text NOT NULL,
+	CONSTRAINT "note_assets_note_id_path_pk" PRIMARY KEY("note_id","path")
+);
+--> statement-breakpoint
+ALTER TABLE "note_assets" ADD CONSTRAINT "note_assets_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "note_assets_path_idx" ON "note_assets" USING btree ("path");--> statement-breakpoint
+DELETE FROM "book_files" WHERE "path" LIKE '%.md';--> statement-breakpoint
+UPDATE "sync_statuses" SET "tree_sha" = NULL;
\ No newline at end of file
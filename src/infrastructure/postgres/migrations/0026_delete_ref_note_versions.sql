@@ -0,0 +1,2 @@
+-- ブランチ名や短縮SHAで保存されたノートの内容は変わりうるため削除する
+DELETE FROM "note_versions" WHERE "commit_sha" !~ '^[0-9a-f]{40}$';
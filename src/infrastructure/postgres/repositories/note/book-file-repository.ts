@@ -0,0 +1,59 @@
+import type {
+  BookFileRepository,
+  SaveBookFile,
+} from "@/domain/note/repositories";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { ResultAsync, okAsync } from "neverthrow";
+import { type Database, mapRepositoryError } from "../../client";
+import { bookFiles } from "../../schema/note";
+
+/**
+ * BookFileRepositoryの実装
+ */
+export class DrizzleBookFileRepository implements BookFileRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * 指定したブックIDのファイル一覧を取得する
+   */
+  findByBookId(bookId: string) {
+    return ResultAsync.fromPromise(
+      this.db.select().from(bookFiles).where(eq(bookFiles.bookId, bookId)),
+      mapRepositoryError,
+    );
+  }
+
+  /**
+   * ファイルを作成または更新する
+   */
+  save(bookId: string, files: SaveBookFile[]) {
+    if (files.length === 0) {
+      return okAsync(undefined);
+    }
+
+    return ResultAsync.fromPromise(
+      this.db
+        .insert(bookFiles)
+        .values(files.map((file) => ({ bookId, ...file })))
+        .onConflictDoUpdate({
+          target: [bookFiles.bookId, bookFiles.path],
+          set: { sha: sql.raw("excluded.sha"), updatedAt: new Date() },
+        }),
+      mapRepositoryError,
+    ).map(() => {});
+  }
+
+  /**
+   * 指定したブックID、pathのファイルを削除する
+   */
+  deleteByPath(bookId: string, paths: string[]) {
+    return ResultAsync.fromPromise(
+      this.db
+        .delete(bookFiles)
+        .where(
+          and(eq(bookFiles.bookId, bookId), inArray(bookFiles.path, paths)),
+        ),
+      mapRepositoryError,
+    ).map(() => {});
+  }
+}
@@ -0,0 +1,44 @@
+import type {
+  CreateNoteRevision,
+  NoteRevisionRepository,
+} from "@/domain/note/repositories";
+import { desc, eq } from "drizzle-orm";
+import { ResultAsync, okAsync } from "neverthrow";
+import { type Database, mapRepositoryError } from "../../client";
+import { noteRevisions } from "../../schema/note";
+
+/**
+ * NoteRevisionRepositoryの実装
+ */
+export class DrizzleNoteRevisionRepository implements NoteRevisionRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * ノートリビジョンをまとめて作成する
+   */
+  createMany(revisions: CreateNoteRevision[]) {
+    if (revisions.length === 0) {
+      return okAsync(undefined);
+    }
+
+    return ResultAsync.fromPromise(
+      this.db.insert(noteRevisions).values(revisions).onConflictDoNothing(),
+      mapRepositoryError,
+    ).map(() => {});
+  }
+
+  /**
+   * 指定したノートのリビジョンを新しい順に取得する
+   */
+  listByNoteId(noteId: string, limit: number) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select()
+        .from(noteRevisions)
+        .where(eq(noteRevisions.noteId, noteId))
+        .orderBy(desc(noteRevisions.committedAt))
+        .limit(limit),
+      mapRepositoryError,
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import type {
+  NoteVersionRepository,
+  SaveNoteVersion,
+} from "@/domain/note/repositories";
+import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
+import { and, eq } from "drizzle-orm";
+import { ResultAsync, err, ok } from "neverthrow";
+import { type Database, mapRepositoryError } from "../../client";
+import { noteVersions } from "../../schema/note";
+
+/**
+ * NoteVersionRepositoryの実装
+ */
+export class DrizzleNoteVersionRepository implements NoteVersionRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * ノートバージョンを保存する
+   */
+  save(version: SaveNoteVersion) {
+    return ResultAsync.fromPromise(
+      this.db.insert(noteVersions).values(version).onConflictDoNothing(),
+      mapRepositoryError,
+    ).map(() => {});
+  }
+
+  /**
+   * 指定したブック、パス、コミットのノートバージョンを取得する
+   */
+  findByCommit(bookId: string, path: string, commitSha: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select()
+        .from(noteVersions)
+        .where(
+          and(
+            eq(noteVersions.bookId, bookId),
+            eq(noteVersions.path, path),
+            eq(noteVersions.commitSha, commitSha),
+          ),
+        ),
+      mapRepositoryError,
+    ).andThen((versions) =>
+      versions.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.NOT_FOUND,
+              "Note version not found",
+            ),
+          )
+        : ok(versions[0]),
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { SyncJobStatus } from "@/domain/note/models";
+import type {
+  CreateSyncJob,
+  SyncJobRepository,
+  UpdateSyncJob,
+} from "@/domain/note/repositories";
+import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
+import {
+  and,
+  asc,
+  eq,
+  gte,
+  inArray,
+  lt,
+  lte,
+  notExists,
+  or,
+  sql,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { ResultAsync, err, ok } from "neverthrow";
+import { type Database, mapRepositoryError } from "../../client";
+import { syncJobs } from "../../schema/note";
+
+/**
+ * SyncJobRepositoryの実装
+ */
+export class DrizzleSyncJobRepository implements SyncJobRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * 同期ジョブを作成する
+   */
+  create(job: CreateSyncJob) {
+    return ResultAsync.fromPromise(
+      this.db.insert(syncJobs).values(job).returning(),
+      mapRepositoryError,
+    ).andThen((jobs) =>
+      jobs.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.UNKNOWN_ERROR,
+              "Failed to create sync job",
+            ),
+          )
+        : ok(jobs[0]),
+    );
+  }
+
+  /**
+   * 同期ジョブを更新する
+   */
+  update(job: UpdateSyncJob) {
+    const { id, ...values } = job;
+    return ResultAsync.fromPromise(
+      this.db
+        .update(syncJobs)
+        .set(values)
+        .where(eq(syncJobs.id, id))
+        .returning(),
+      mapRepositoryError,
+    ).andThen((jobs) =>
+      jobs.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.NOT_FOUND,
+              "Sync job not found",
+            ),
+          )
+        : ok(jobs[0]),
+    );
+  }
+
+  /**
+   * 実行中のまま放置され、最大試行回数に達した同期ジョブを失敗にする
+   */
+  failStale(staleBefore: Date, maxAttempts: number) {
+    return ResultAsync.fromPromise(
+      this.db
+        .update(syncJobs)
+        .set({
+          status: SyncJobStatus.FAILED,
+          lockedAt: null,
+          error: "Sync job timed out",
+        })
+        .where(
+          and(
+            eq(syncJobs.status, SyncJobStatus.RUNNING),
+            lt(syncJobs.lockedAt, staleBefore),
+            gte(syncJobs.attempts, maxAttempts),
+          ),
+        )
+        .returning(),
+      mapRepositoryError,
+    );
+  }
+
+  /**
+   * 実行可能な同期ジョブを1件取得し、実行中にする
+   */
+  claim(now: Date, staleBefore: Date, maxAttempts: number) {
+    const earlier = alias(syncJobs, "earlier");
+    const next = this.db
+      .select({ id: syncJobs.id })
+      .from(syncJobs)
+      .where(
+        and(
+          or(
+            and(
+              eq(syncJobs.status, SyncJobStatus.QUEUED),
+              lte(syncJobs.runAt, now),
+            ),
+            and(
+              eq(syncJobs.status, SyncJobStatus.RUNNING),
+              lt(syncJobs.lockedAt, staleBefore),
+              lt(syncJobs.attempts, maxAttempts),
+            ),
+          ),
+          // 同じブックの先行するジョブが完了するまで待つ
+          notExists(
+            this.db
+              .select({ id: earlier.id })
+              .from(earlier)
+              .where(
+                and(
+                  eq(earlier.bookId, syncJobs.bookId),
+                  lt(earlier.id, syncJobs.id),
+                  inArray(earlier.status, [
+                    SyncJobStatus.QUEUED,
+                    SyncJobStatus.RUNNING,
+                  ]),
+                ),
+              ),
+          ),
+        ),
+      )
+      .orderBy(asc(syncJobs.runAt), asc(syncJobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    return ResultAsync.fromPromise(
+      this.db
+        .update(syncJobs)
+        .set({
+          status: SyncJobStatus.RUNNING,
+          attempts: sql`${syncJobs.attempts} + 1`,
+          lockedAt: now,
+        })
+        .where(inArray(syncJobs.id, next))
+        .returning(),
+      mapRepositoryError,
+    ).map((jobs) => jobs.at(0) ?? null);
+  }
+}
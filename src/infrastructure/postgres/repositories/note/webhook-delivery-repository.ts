@@ -0,0 +1,94 @@
+import type { WebhookDeliveryStatus } from "@/domain/note/models";
+import type {
+  CreateWebhookDelivery,
+  WebhookDeliveryRepository,
+} from "@/domain/note/repositories";
+import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
+import { desc, eq, inArray } from "drizzle-orm";
+import { ResultAsync, err, ok } from "neverthrow";
+import { type Database, mapRepositoryError } from "../../client";
+import { webhookDeliveries } from "../../schema/note";
+
+/**
+ * WebhookDeliveryRepositoryの実装
+ */
+export class DrizzleWebhookDeliveryRepository
+  implements WebhookDeliveryRepository
+{
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Webhook配信を処理中として作成する
+   */
+  create(delivery: CreateWebhookDelivery) {
+    return ResultAsync.fromPromise(
+      this.db
+        .insert(webhookDeliveries)
+        .values(delivery)
+        .onConflictDoUpdate({
+          target: webhookDeliveries.id,
+          set: {
+            bookId: delivery.bookId,
+            status: "processing",
+            error: null,
+            updatedAt: new Date(),
+          },
+          // 失敗した配信の再送のみ受け付ける
+          setWhere: eq(webhookDeliveries.status, "failed"),
+        })
+        .returning(),
+      mapRepositoryError,
+    ).andThen((deliveries) =>
+      deliveries.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.UNIQUE_VIOLATION,
+              "Webhook delivery already exists",
+            ),
+          )
+        : ok(deliveries[0]),
+    );
+  }
+
+  /**
+   * Webhook配信のステータスを更新する
+   */
+  updateStatus(
+    id: string,
+    status: WebhookDeliveryStatus,
+    error: string | null,
+  ) {
+    return ResultAsync.fromPromise(
+      this.db
+        .update(webhookDeliveries)
+        .set({ status, error })
+        .where(eq(webhookDeliveries.id, id))
+        .returning(),
+      mapRepositoryError,
+    ).andThen((deliveries) =>
+      deliveries.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.NOT_FOUND,
+              "Webhook delivery not found",
+            ),
+          )
+        : ok(deliveries[0]),
+    );
+  }
+
+  /**
+   * 指定したブックIDのいずれかに紐付くWebhook配信を新しい順に取得する
+   */
+  listByBookIds(bookIds: string[], limit: number) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select()
+        .from(webhookDeliveries)
+        .where(inArray(webhookDeliveries.bookId, bookIds))
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(limit),
+      mapRepositoryError,
+    );
+  }
+}
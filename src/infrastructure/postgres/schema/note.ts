@@ -1,8 +1,12 @@
+import type { GitHubPush } from "@/domain/note/dtos/github-push";
 import { NoteScope } from "@/domain/note/models/note";
 import type { SyncStatusCode } from "@/domain/note/models/sync-status";
-import { relations } from "drizzle-orm";
+import { type AnyColumn, relations, sql } from "drizzle-orm";
 import {
+  boolean,
+  index,
   integer,
+  jsonb,
   pgEnum,
   pgTable,
   primaryKey,
@@ -16,10 +20,29 @@ import { users } from "./account";
 
 export const syncStatusEnum = pgEnum("sync_status", [
   "waiting",
+  "syncing",
   "synced",
   "error",
 ]);
 
+export const syncJobStatusEnum = pgEnum("sync_job_status", [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+]);
+
+export const bookMemberRoleEnum = pgEnum("book_member_role", [
+  "owner",
+  "editor",
+]);
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "processing",
+  "succeeded",
+  "failed",
+]);
+
 // ブックテーブル（GitHubリポジトリに対応）
 export const books = pgTable(
   "books",
@@ -32,7 +55,35 @@ export const books = pgTable(
       .references(() => users.id, { onDelete: "cascade" }),
     owner: text("owner").notNull(),
     repo: text("repo").notNull(),
+    slug: text("slug").notNull().default(""),
     webhookId: integer("webhook_id").notNull(),
+    branch: text("branch"),
+    rootPath: text("root_path"),
+    ignore: jsonb("ignore").notNull().$type<string[]>().default([]),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    ownerRepoSlugIndex: uniqueIndex("owner_repo_slug_idx").on(
+      t.owner,
+      t.repo,
+      t.slug,
+    ),
+  }),
+);
+
+// ブックリダイレクトテーブル（名前の変更や移管前のリポジトリ）
+export const bookRedirects = pgTable(
+  "book_redirects",
+  {
+    owner: text("owner").notNull(),
+    repo: text("repo").notNull(),
+    bookId: uuid("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at")
       .notNull()
@@ -40,7 +91,30 @@ export const books = pgTable(
       .$onUpdate(() => new Date()),
   },
   (t) => ({
-    ownerRepoIndex: uniqueIndex("owner_repo_idx").on(t.owner, t.repo),
+    pk: primaryKey({ columns: [t.owner, t.repo] }),
+  }),
+);
+
+// ブックメンバーテーブル
+export const bookMembers = pgTable(
+  "book_members",
+  {
+    bookId: uuid("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: bookMemberRoleEnum("role").notNull().default("editor"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.bookId, t.userId] }),
+    userIndex: index("book_members_user_id_idx").on(t.userId),
   }),
 );
 
@@ -51,6 +125,7 @@ export const bookDetails = pgTable("book_details", {
     .references(() => books.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description").notNull(),
+  summary: text("summary"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at")
     .notNull()
@@ -65,6 +140,8 @@ export const syncStatuses = pgTable("sync_statuses", {
     .references(() => books.id, { onDelete: "cascade" }),
   lastSyncedAt: timestamp("last_synced_at"),
   status: syncStatusEnum("status").notNull().default("waiting"),
+  commitSha: text("commit_sha"),
+  treeSha: text("tree_sha"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at")
     .notNull()
@@ -72,6 +149,117 @@ export const syncStatuses = pgTable("sync_statuses", {
     .$onUpdate(() => new Date()),
 });
 
+// ブックファイルテーブル（同期済みファイルのBlob SHA）
+export const bookFiles = pgTable(
+  "book_files",
+  {
+    bookId: uuid("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    path: text("path").notNull(),
+    sha: text("sha").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.bookId, t.path] }),
+  }),
+);
+
+// ノートリダイレクトテーブル（リネームされたノートの旧パス）
+export const noteRedirects = pgTable(
+  "note_redirects",
+  {
+    bookId: uuid("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    fromPath: text("from_path").notNull(),
+    toPath: text("to_path").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.bookId, t.fromPath] }),
+  }),
+);
+
+// ノートバージョンテーブル（コミット時点のノートのMarkdownのキャッシュ）
+export const noteVersions = pgTable(
+  "note_versions",
+  {
+    bookId: uuid("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    path: text("path").notNull(),
+    commitSha: text("commit_sha").notNull(),
+    content: text("content").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.bookId, t.path, t.commitSha] }),
+  }),
+);
+
+// 同期ジョブテーブル（Webhookから受け付けたPushの処理待ち行列）
+export const syncJobs = pgTable(
+  "sync_jobs",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    bookId: uuid("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    deliveryId: text("delivery_id"),
+    payload: jsonb("payload").notNull().$type<GitHubPush>(),
+    status: syncJobStatusEnum("status").notNull().default("queued"),
+    attempts: integer("attempts").notNull().default(0),
+    runAt: timestamp("run_at").notNull().defaultNow(),
+    lockedAt: timestamp("locked_at"),
+    error: text("error"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    statusIndex: index("sync_jobs_status_idx").on(t.status, t.runAt),
+    bookIdIndex: index("sync_jobs_book_id_idx").on(t.bookId),
+  }),
+);
+
+// Webhook配信テーブル（IDはX-GitHub-Deliveryヘッダーの値）
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(),
+    bookId: uuid("book_id").references(() => books.id, {
+      onDelete: "cascade",
+    }),
+    event: text("event").notNull(),
+    status: webhookDeliveryStatusEnum("status").notNull().default("processing"),
+    error: text("error"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    bookIdIndex: index("webhook_deliveries_book_id_idx").on(
+      t.bookId,
+      t.createdAt,
+    ),
+  }),
+);
+
 // タグテーブル
 export const tags = pgTable(
   "tags",
@@ -92,6 +280,14 @@ export const tags = pgTable(
   (t) => [uniqueIndex("book_name_idx").on(t.bookId, t.name)],
 );
 
+/**
+ * ノートの全文検索用のtsvector
+ * 日本語などは分かち書きされないため、トライグラムによる部分一致と併用する
+ */
+export function noteSearchVector(title: AnyColumn, body: AnyColumn) {
+  return sql`(setweight(to_tsvector('simple', ${title}), 'A') || setweight(to_tsvector('simple', ${body}), 'B'))`;
+}
+
 // ノートテーブル
 export const notes = pgTable(
   "notes",
@@ -109,6 +305,13 @@ export const notes = pgTable(
     title: text("title").notNull(),
     body: text("body").notNull(),
     scope: text("scope").notNull().$type<NoteScope>().default(NoteScope.PUBLIC),
+    audience: jsonb("audience").notNull().$type<string[]>().default([]),
+    description: text("description"),
+    coverImage: text("cover_image"),
+    publishedAt: timestamp("published_at"),
+    modifiedAt: timestamp("modified_at"),
+    sortOrder: integer("sort_order"),
+    toc: boolean("toc").notNull().default(true),
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at")
       .notNull()
@@ -117,6 +320,18 @@ export const notes = pgTable(
   },
   (t) => ({
     bookPathIndex: uniqueIndex("book_path_idx").on(t.bookId, t.path),
+    searchIndex: index("notes_search_idx").using(
+      "gin",
+      noteSearchVector(t.title, t.body),
+    ),
+    titleTrigramIndex: index("notes_title_trgm_idx").using(
+      "gin",
+      sql`${t.title} gin_trgm_ops`,
+    ),
+    bodyTrigramIndex: index("notes_body_trgm_idx").using(
+      "gin",
+      sql`${t.body} gin_trgm_ops`,
+    ),
   }),
 );
 
@@ -136,6 +351,61 @@ export const noteTags = pgTable(
   }),
 );
 
+// ノートからのウィキリンクのリンク先
+export const noteLinks = pgTable(
+  "note_links",
+  {
+    noteId: uuid("note_id")
+      .notNull()
+      .references(() => notes.id, { onDelete: "cascade" }),
+    target: text("target").notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.noteId, t.target] }),
+    targetIndex: index("note_links_target_idx").on(t.target),
+  }),
+);
+
+// ノートから参照しているリポジトリ内のアセット
+export const noteAssets = pgTable(
+  "note_assets",
+  {
+    noteId: uuid("note_id")
+      .notNull()
+      .references(() => notes.id, { onDelete: "cascade" }),
+    path: text("path").notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.noteId, t.path] }),
+    pathIndex: index("note_assets_path_idx").on(t.path),
+  }),
+);
+
+// ノートリビジョンテーブル（ノートのファイルを変更したコミット）
+export const noteRevisions = pgTable(
+  "note_revisions",
+  {
+    noteId: uuid("note_id")
+      .notNull()
+      .references(() => notes.id, { onDelete: "cascade" }),
+    commitSha: text("commit_sha").notNull(),
+    message: text("message").notNull(),
+    authorName: text("author_name"),
+    authorLogin: text("author_login"),
+    blobSha: text("blob_sha"),
+    url: text("url").notNull(),
+    committedAt: timestamp("committed_at").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.noteId, t.commitSha] }),
+    committedAtIndex: index("note_revisions_committed_at_idx").on(
+      t.noteId,
+      t.committedAt,
+    ),
+  }),
+);
+
 // リレーションの定義
 export const booksRelations = relations(books, ({ one, many }) => ({
   user: one(users, {
@@ -177,12 +447,91 @@ export const notesRelations = relations(notes, ({ one, many }) => ({
     references: [books.id],
   }),
   tags: many(noteTags),
+  links: many(noteLinks),
+  assets: many(noteAssets),
+}));
+
+export const bookFilesRelations = relations(bookFiles, ({ one }) => ({
+  book: one(books, {
+    fields: [bookFiles.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const bookRedirectsRelations = relations(bookRedirects, ({ one }) => ({
+  book: one(books, {
+    fields: [bookRedirects.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const bookMembersRelations = relations(bookMembers, ({ one }) => ({
+  book: one(books, {
+    fields: [bookMembers.bookId],
+    references: [books.id],
+  }),
+  user: one(users, {
+    fields: [bookMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const noteRedirectsRelations = relations(noteRedirects, ({ one }) => ({
+  book: one(books, {
+    fields: [noteRedirects.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const noteVersionsRelations = relations(noteVersions, ({ one }) => ({
+  book: one(books, {
+    fields: [noteVersions.bookId],
+    references: [books.id],
+  }),
 }));
 
+export const syncJobsRelations = relations(syncJobs, ({ one }) => ({
+  book: one(books, {
+    fields: [syncJobs.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const webhookDeliveriesRelations = relations(
+  webhookDeliveries,
+  ({ one }) => ({
+    book: one(books, {
+      fields: [webhookDeliveries.bookId],
+      references: [books.id],
+    }),
+  }),
+);
+
 export const tagsRelations = relations(tags, ({ many }) => ({
   notes: many(noteTags),
 }));
 
+export const noteLinksRelations = relations(noteLinks, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteLinks.noteId],
+    references: [notes.id],
+  }),
+}));
+
+export const noteAssetsRelations = relations(noteAssets, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteAssets.noteId],
+    references: [notes.id],
+  }),
+}));
+
+export const noteRevisionsRelations = relations(noteRevisions, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteRevisions.noteId],
+    references: [notes.id],
+  }),
+}));
+
 export const noteTagsRelations = relations(noteTags, ({ one }) => ({
   note: one(notes, {
     fields: [noteTags.noteId],
@@ -39,7 +39,9 @@ export const posts = pgTable(
       name: "book_notepath_fkey",
       columns: [t.bookId, t.notePath],
       foreignColumns: [notes.bookId, notes.path],
-    }).onDelete("cascade"),
+    })
+      .onDelete("cascade")
+      .onUpdate("cascade"),
   }),
 );
 
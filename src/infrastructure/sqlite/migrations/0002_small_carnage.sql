@@ -0,0 +1,3 @@
+ALTER TABLE `notes` ADD `description` text;--> statement-breakpoint
+ALTER TABLE `notes` ADD `cover_image` text;--> statement-breakpoint
+ALTER TABLE `notes` ADD `published_at` integer;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `book_files` (
+	`book_id` text NOT NULL,
+	`path` text NOT NULL,
+	`sha` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`book_id`, `path`),
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `sync_statuses` ADD `commit_sha` text;--> statement-breakpoint
+ALTER TABLE `sync_statuses` ADD `tree_sha` text;
\ No newline at end of file
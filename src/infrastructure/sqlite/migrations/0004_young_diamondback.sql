@@ -0,0 +1,31 @@
+CREATE TABLE `note_redirects` (
+	`book_id` text NOT NULL,
+	`from_path` text NOT NULL,
+	`to_path` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`book_id`, `from_path`),
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_posts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`book_id` text NOT NULL,
+	`note_path` text NOT NULL,
+	`status` text NOT NULL,
+	`platform` text NOT NULL,
+	`post_uri` text NOT NULL,
+	`post_cid` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`book_id`,`note_path`) REFERENCES `notes`(`book_id`,`path`) ON UPDATE cascade ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_posts`("id", "user_id", "book_id", "note_path", "status", "platform", "post_uri", "post_cid", "created_at", "updated_at") SELECT "id", "user_id", "book_id", "note_path", "status", "platform", "post_uri", "post_cid", "created_at", "updated_at" FROM `posts`;--> statement-breakpoint
+DROP TABLE `posts`;--> statement-breakpoint
+ALTER TABLE `__new_posts` RENAME TO `posts`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `book_notepath_idx` ON `posts` (`book_id`,`note_path`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `note_links` (
+	`note_id` text NOT NULL,
+	`target` text NOT NULL,
+	PRIMARY KEY(`note_id`, `target`),
+	FOREIGN KEY (`note_id`) REFERENCES `notes`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `note_links_target_idx` ON `note_links` (`target`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `notes` ADD `toc` integer DEFAULT true NOT NULL;
\ No newline at end of file
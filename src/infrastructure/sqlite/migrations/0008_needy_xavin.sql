@@ -0,0 +1,12 @@
+CREATE TABLE `webhook_deliveries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`book_id` text,
+	`event` text NOT NULL,
+	`status` text DEFAULT 'processing' NOT NULL,
+	`error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `webhook_deliveries_book_id_idx` ON `webhook_deliveries` (`book_id`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `sync_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`book_id` text NOT NULL,
+	`delivery_id` text,
+	`payload` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`run_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`locked_at` integer,
+	`error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `sync_jobs_status_idx` ON `sync_jobs` (`status`,`run_at`);--> statement-breakpoint
+CREATE INDEX `sync_jobs_book_id_idx` ON `sync_jobs` (`book_id`);
\ No newline at end of file
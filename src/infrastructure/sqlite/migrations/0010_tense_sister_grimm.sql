@@ -0,0 +1,9 @@
+CREATE TABLE `book_redirects` (
+	`owner` text NOT NULL,
+	`repo` text NOT NULL,
+	`book_id` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`owner`, `repo`),
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE cascade
+);
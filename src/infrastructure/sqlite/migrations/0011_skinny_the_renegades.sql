@@ -0,0 +1 @@
+ALTER TABLE `books` ADD `branch` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `books` ADD `root_path` text;--> statement-breakpoint
+ALTER TABLE `books` ADD `ignore` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
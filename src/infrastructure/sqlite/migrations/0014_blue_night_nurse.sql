@@ -0,0 +1,13 @@
+CREATE TABLE `book_members` (
+	`book_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`role` text DEFAULT 'editor' NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`book_id`, `user_id`),
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `book_members_user_id_idx` ON `book_members` (`user_id`);--> statement-breakpoint
+INSERT INTO `book_members` (`book_id`, `user_id`, `role`) SELECT `id`, `user_id`, 'owner' FROM `books`;
\ No newline at end of file
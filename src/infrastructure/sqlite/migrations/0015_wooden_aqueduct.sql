@@ -0,0 +1,15 @@
+CREATE TABLE `note_revisions` (
+	`note_id` text NOT NULL,
+	`commit_sha` text NOT NULL,
+	`message` text NOT NULL,
+	`author_name` text,
+	`author_login` text,
+	`blob_sha` text,
+	`url` text NOT NULL,
+	`committed_at` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`note_id`, `commit_sha`),
+	FOREIGN KEY (`note_id`) REFERENCES `notes`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `note_revisions_committed_at_idx` ON `note_revisions` (`note_id`,`committed_at`);
\ No newline at end of file
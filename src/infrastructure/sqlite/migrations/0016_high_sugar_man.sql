@@ -0,0 +1,9 @@
+CREATE TABLE `note_versions` (
+	`book_id` text NOT NULL,
+	`path` text NOT NULL,
+	`commit_sha` text NOT NULL,
+	`content` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`book_id`, `path`, `commit_sha`),
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `notes` ADD `modified_at` integer;--> statement-breakpoint
+UPDATE `sync_statuses` SET `tree_sha` = NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `note_assets` (
+	`note_id` text NOT NULL,
+	`path` text NOT NULL,
+	PRIMARY KEY(`note_id`, `path`),
+	FOREIGN KEY (`note_id`) REFERENCES `notes`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `note_assets_path_idx` ON `note_assets` (`path`);--> statement-breakpoint
+DELETE FROM `book_files` WHERE `path` LIKE '%.md';--> statement-breakpoint
+UPDATE `sync_statuses` SET `tree_sha` = NULL;
\ No newline at end of file
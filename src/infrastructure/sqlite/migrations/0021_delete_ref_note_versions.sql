@@ -0,0 +1,2 @@
+-- ブランチ名や短縮SHAで保存されたノートの内容は変わりうるため削除する
+DELETE FROM `note_versions` WHERE length(`commit_sha`) <> 40 OR `commit_sha` GLOB '*[^0-9a-f]*';
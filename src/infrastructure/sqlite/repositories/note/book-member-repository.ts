@@ -0,0 +1,101 @@
+import type {
+  BookMemberRepository,
+  SaveBookMember,
+} from "@/domain/note/repositories";
+import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
+import { and, asc, eq, getTableColumns } from "drizzle-orm";
+import { ResultAsync, err, ok } from "neverthrow";
+import { type Database, mapRepositoryError } from "../../client";
+import { users } from "../../schema/account";
+import { bookMembers } from "../../schema/note";
+
+/**
+ * BookMemberRepositoryの実装
+ */
+export class DrizzleBookMemberRepository implements BookMemberRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * ブックメンバーを保存する
+   */
+  save(member: SaveBookMember) {
+    return ResultAsync.fromPromise(
+      this.db
+        .insert(bookMembers)
+        .values(member)
+        .onConflictDoUpdate({
+          target: [bookMembers.bookId, bookMembers.userId],
+          set: { role: member.role, updatedAt: new Date() },
+        })
+        .returning(),
+      mapRepositoryError,
+    )
+      .andThen((members) =>
+        members.length === 0
+          ? err(
+              new RepositoryError(
+                RepositoryErrorCode.UNKNOWN_ERROR,
+                "Failed to save book member",
+              ),
+            )
+          : ok(members[0]),
+      )
+      .andThen((member) =>
+        this.findByBookIdAndUserId(member.bookId, member.userId),
+      );
+  }
+
+  /**
+   * 指定したブックとユーザーのブックメンバーを取得する
+   */
+  findByBookIdAndUserId(bookId: string, userId: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select({ ...getTableColumns(bookMembers), handle: users.handle })
+        .from(bookMembers)
+        .innerJoin(users, eq(bookMembers.userId, users.id))
+        .where(
+          and(eq(bookMembers.bookId, bookId), eq(bookMembers.userId, userId)),
+        ),
+      mapRepositoryError,
+    ).andThen((members) =>
+      members.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.NOT_FOUND,
+              "Book member not found",
+            ),
+          )
+        : ok(members[0]),
+    );
+  }
+
+  /**
+   * 指定したブックのメンバーを一覧する
+   */
+  listByBookId(bookId: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select({ ...getTableColumns(bookMembers), handle: users.handle })
+        .from(bookMembers)
+        .innerJoin(users, eq(bookMembers.userId, users.id))
+        .where(eq(bookMembers.bookId, bookId))
+        .orderBy(asc(bookMembers.createdAt)),
+      mapRepositoryError,
+    );
+  }
+
+  /**
+   * ブックメンバーを削除する
+   */
+  delete(bookId: string, userId: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .delete(bookMembers)
+        .where(
+          and(eq(bookMembers.bookId, bookId), eq(bookMembers.userId, userId)),
+        ),
+      mapRepositoryError,
+    ).map(() => undefined);
+  }
+}
@@ -0,0 +1,66 @@
+import type {
+  BookRedirectRepository,
+  CreateBookRedirect,
+} from "@/domain/note/repositories";
+import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
+import { and, eq } from "drizzle-orm";
+import { ResultAsync, err, ok } from "neverthrow";
+import { type Database, mapRepositoryError } from "../../client";
+import { bookRedirects } from "../../schema/note";
+
+/**
+ * BookRedirectRepositoryの実装
+ */
+export class DrizzleBookRedirectRepository implements BookRedirectRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * ブックリダイレクトを作成する
+   */
+  create(redirect: CreateBookRedirect) {
+    return ResultAsync.fromPromise(
+      this.db
+        .insert(bookRedirects)
+        .values(redirect)
+        .onConflictDoUpdate({
+          target: [bookRedirects.owner, bookRedirects.repo],
+          set: { bookId: redirect.bookId, updatedAt: new Date() },
+        })
+        .returning(),
+      mapRepositoryError,
+    ).andThen((redirects) =>
+      redirects.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.UNKNOWN_ERROR,
+              "Failed to create book redirect",
+            ),
+          )
+        : ok(redirects[0]),
+    );
+  }
+
+  /**
+   * 指定したオーナーとリポジトリのブックリダイレクトを取得する
+   */
+  findByOwnerAndRepo(owner: string, repo: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select()
+        .from(bookRedirects)
+        .where(
+          and(eq(bookRedirects.owner, owner), eq(bookRedirects.repo, repo)),
+        ),
+      mapRepositoryError,
+    ).andThen((redirects) =>
+      redirects.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.NOT_FOUND,
+              "Book redirect not found",
+            ),
+          )
+        : ok(redirects[0]),
+    );
+  }
+}
@@ -5,7 +5,7 @@ import type {
 } from "@/domain/note/repositories/book-repository";
 import type { BookRepository } from "@/domain/note/repositories/book-repository";
 import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
-import { and, asc, count, eq } from "drizzle-orm";
+import { and, asc, count, eq, isNotNull, isNull } from "drizzle-orm";
 import { ResultAsync, err, ok } from "neverthrow";
 import { type Database, mapRepositoryError } from "../../client";
 import { users } from "../../schema/account";
@@ -176,9 +176,9 @@ export class DrizzleBookRepository implements BookRepository {
   }
 
   /**
-   * 指定したオーナーとリポジトリのブックを取得する
+   * 指定したオーナーとリポジトリ、スラッグのブックを取得する
    */
-  findByOwnerAndRepo(owner: string, repo: string) {
+  findByOwnerAndRepo(owner: string, repo: string, slug = "") {
     return ResultAsync.fromPromise(
       this.db
         .select({
@@ -189,7 +189,13 @@ export class DrizzleBookRepository implements BookRepository {
         .from(books)
         .innerJoin(bookDetails, eq(books.id, bookDetails.bookId))
         .innerJoin(syncStatuses, eq(books.id, syncStatuses.bookId))
-        .where(and(eq(books.owner, owner), eq(books.repo, repo)))
+        .where(
+          and(
+            eq(books.owner, owner),
+            eq(books.repo, repo),
+            eq(books.slug, slug),
+          ),
+        )
         .limit(1),
       mapRepositoryError,
     ).andThen(([book]) =>
@@ -208,6 +214,64 @@ export class DrizzleBookRepository implements BookRepository {
     );
   }
 
+  /**
+   * 指定したオーナーとリポジトリのブック一覧をスラッグ順に取得する
+   */
+  listByOwnerAndRepo(owner: string, repo: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select({
+          book: books,
+          details: bookDetails,
+          syncStatus: syncStatuses,
+        })
+        .from(books)
+        .innerJoin(bookDetails, eq(books.id, bookDetails.bookId))
+        .innerJoin(syncStatuses, eq(books.id, syncStatuses.bookId))
+        .where(and(eq(books.owner, owner), eq(books.repo, repo)))
+        .orderBy(asc(books.slug)),
+      mapRepositoryError,
+    ).map((bookResults) =>
+      bookResults.map((row) => ({
+        ...row.book,
+        details: row.details,
+        syncStatus: row.syncStatus,
+      })),
+    );
+  }
+
+  /**
+   * 同期したことがあり、ツリーのSHAが記録されていないブックを同期状態の更新が古い順に取得する
+   */
+  listWithoutTreeSha(limit: number) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select({
+          book: books,
+          details: bookDetails,
+          syncStatus: syncStatuses,
+        })
+        .from(books)
+        .innerJoin(bookDetails, eq(books.id, bookDetails.bookId))
+        .innerJoin(syncStatuses, eq(books.id, syncStatuses.bookId))
+        .where(
+          and(
+            isNull(syncStatuses.treeSha),
+            isNotNull(syncStatuses.lastSyncedAt),
+          ),
+        )
+        .orderBy(asc(syncStatuses.updatedAt))
+        .limit(limit),
+      mapRepositoryError,
+    ).map((bookResults) =>
+      bookResults.map((row) => ({
+        ...row.book,
+        details: row.details,
+        syncStatus: row.syncStatus,
+      })),
+    );
+  }
+
   /**
    * 指定したIDのブックを削除する
    */
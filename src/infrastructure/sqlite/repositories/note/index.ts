@@ -1,3 +1,5 @@
+export * from "./book-file-repository";
 export * from "./book-repository";
+export * from "./note-redirect-repository";
 export * from "./note-repository";
 export * from "./tag-repository";
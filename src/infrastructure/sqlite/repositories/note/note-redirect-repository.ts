@@ -0,0 +1,88 @@
+import type {
+  CreateNoteRedirect,
+  NoteRedirectRepository,
+} from "@/domain/note/repositories";
+import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
+import { and, eq } from "drizzle-orm";
+import { ResultAsync, err, ok } from "neverthrow";
+import { type Database, mapRepositoryError } from "../../client";
+import { noteRedirects } from "../../schema/note";
+
+/**
+ * NoteRedirectRepositoryの実装
+ */
+export class DrizzleNoteRedirectRepository implements NoteRedirectRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * ノートリダイレクトを作成する
+   */
+  create(redirect: CreateNoteRedirect) {
+    return ResultAsync.fromPromise(
+      this.db.transaction(async (tx) => {
+        // 転送先のパスは実在するノートになるため、そこからのリダイレクトは不要
+        await tx
+          .delete(noteRedirects)
+          .where(
+            and(
+              eq(noteRedirects.bookId, redirect.bookId),
+              eq(noteRedirects.fromPath, redirect.toPath),
+            ),
+          );
+
+        await tx
+          .update(noteRedirects)
+          .set({ toPath: redirect.toPath })
+          .where(
+            and(
+              eq(noteRedirects.bookId, redirect.bookId),
+              eq(noteRedirects.toPath, redirect.fromPath),
+            ),
+          );
+
+        const [savedRedirect] = await tx
+          .insert(noteRedirects)
+          .values(redirect)
+          .onConflictDoUpdate({
+            target: [noteRedirects.bookId, noteRedirects.fromPath],
+            set: { toPath: redirect.toPath, updatedAt: new Date() },
+          })
+          .returning();
+
+        if (!savedRedirect) {
+          throw new Error("Failed to create note redirect");
+        }
+
+        return savedRedirect;
+      }),
+      mapRepositoryError,
+    );
+  }
+
+  /**
+   * 指定したブックID、pathのノートリダイレクトを取得する
+   */
+  findByPath(bookId: string, path: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select()
+        .from(noteRedirects)
+        .where(
+          and(
+            eq(noteRedirects.bookId, bookId),
+            eq(noteRedirects.fromPath, path),
+          ),
+        ),
+      mapRepositoryError,
+    ).andThen((redirects) =>
+      redirects.length === 0
+        ? err(
+            new RepositoryError(
+              RepositoryErrorCode.NOT_FOUND,
+              "Note redirect not found",
+            ),
+          )
+        : ok(redirects[0]),
+    );
+  }
+}
@@ -1,15 +1,44 @@
+import type { SearchQuery } from "@/domain/note/dtos";
 import type { Tag } from "@/domain/note/models";
+import { getBookPath } from "@/domain/note/models/book";
+import { NoteScope } from "@/domain/note/models/note";
 import type {
   CreateOrUpdateNote,
+  NoteLocation,
   NoteRepository,
 } from "@/domain/note/repositories";
+import { getSearchKeywords } from "@/domain/note/services/parse-search-query";
 import { RepositoryError, RepositoryErrorCode } from "@/domain/types/error";
 import type { PaginationParams } from "@/domain/types/pagination";
-import { and, asc, count, desc, eq, inArray, like, or } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  exists,
+  inArray,
+  like,
+  or,
+  sql,
+} from "drizzle-orm";
 import { ResultAsync, err, ok } from "neverthrow";
 import { type Database, mapRepositoryError } from "../../client";
 import { users } from "../../schema/account";
-import { books, noteTags, notes, tags } from "../../schema/note";
+import {
+  books,
+  noteAssets,
+  noteLinks,
+  noteTags,
+  notes,
+  tags,
+} from "../../schema/note";
+
+/**
+ * 一覧や検索に含めるノートの条件
+ * 限定公開のノートは閲覧できるユーザーが限られるため含めない
+ */
+const listable = eq(notes.scope, NoteScope.PUBLIC);
 
 /**
  * NoteRepositoryの実装
@@ -21,14 +50,22 @@ export class DrizzleNoteRepository implements NoteRepository {
    * ソート条件を安全に生成する
    */
   private getOrderBy(pagination?: PaginationParams) {
+    // Gitから日時を取得できなかったノートは同期した日時で並べる
+    const publishedAt = sql`coalesce(${notes.publishedAt}, ${notes.createdAt})`;
+    const modifiedAt = sql`coalesce(${notes.modifiedAt}, ${notes.updatedAt})`;
+
     if (!pagination?.orderBy || !pagination?.order) {
-      return desc(notes.createdAt);
+      return desc(publishedAt);
     }
 
     const order = pagination.order === "asc" ? asc : desc;
     switch (pagination.orderBy) {
       case "title":
         return order(notes.title);
+      case "publishedAt":
+        return order(publishedAt);
+      case "modifiedAt":
+        return order(modifiedAt);
       case "updatedAt":
         return order(notes.updatedAt);
       default:
@@ -51,6 +88,14 @@ export class DrizzleNoteRepository implements NoteRepository {
               title: note.title,
               body: note.body,
               scope: note.scope,
+              audience: note.audience,
+              description: note.description,
+              coverImage: note.coverImage,
+              // 日時が取得できなかった場合は保存済みの日時を残す
+              publishedAt: sql`coalesce(excluded.published_at, ${notes.publishedAt})`,
+              modifiedAt: sql`coalesce(excluded.modified_at, ${notes.modifiedAt})`,
+              sortOrder: note.sortOrder,
+              toc: note.toc,
             },
           })
           .returning();
@@ -59,6 +104,24 @@ export class DrizzleNoteRepository implements NoteRepository {
           throw new Error("Failed to create or update note");
         }
 
+        await tx.delete(noteLinks).where(eq(noteLinks.noteId, savedNote.id));
+        if (note.links.length > 0) {
+          await tx
+            .insert(noteLinks)
+            .values(
+              note.links.map((target) => ({ noteId: savedNote.id, target })),
+            )
+            .onConflictDoNothing();
+        }
+
+        await tx.delete(noteAssets).where(eq(noteAssets.noteId, savedNote.id));
+        if (note.assets.length > 0) {
+          await tx
+            .insert(noteAssets)
+            .values(note.assets.map((path) => ({ noteId: savedNote.id, path })))
+            .onConflictDoNothing();
+        }
+
         let savedTags: Tag[] = [];
         if (note.tags.length > 0) {
           savedTags = await tx
@@ -109,21 +172,36 @@ export class DrizzleNoteRepository implements NoteRepository {
   }
 
   /**
-   * 指定したIDのノートを取得する
+   * ユーザーのハンドル、リポジトリ、ブックのスラッグ、パスを指定してノートを取得する
+   * ブックとノートはそれぞれ一意インデックスで絞り込む
    */
-  findByPath(path: string) {
+  findByLocation(location: NoteLocation) {
     return ResultAsync.fromPromise(
-      this.db.select().from(notes).where(eq(notes.path, path)),
+      this.db
+        .select({ note: notes })
+        .from(notes)
+        .innerJoin(books, eq(notes.bookId, books.id))
+        .innerJoin(users, eq(books.userId, users.id))
+        .where(
+          and(
+            eq(books.owner, location.owner),
+            eq(books.repo, location.repo),
+            eq(books.slug, location.slug),
+            eq(users.handle, location.handle),
+            eq(notes.path, location.path),
+          ),
+        )
+        .limit(1),
       mapRepositoryError,
-    ).andThen((selectedNotes) =>
-      selectedNotes.length === 0
-        ? err(
+    ).andThen(([selected]) =>
+      selected
+        ? ok(selected.note)
+        : err(
             new RepositoryError(
               RepositoryErrorCode.NOT_FOUND,
               "Note not found",
             ),
-          )
-        : ok(selectedNotes[0]),
+          ),
     );
   }
 
@@ -141,7 +219,7 @@ export class DrizzleNoteRepository implements NoteRepository {
           id: notes.id,
         })
         .from(notes)
-        .where(eq(notes.bookId, bookId))
+        .where(and(eq(notes.bookId, bookId), listable))
         .orderBy(this.getOrderBy(pagination))
         .limit(limit)
         .offset(offset),
@@ -160,7 +238,7 @@ export class DrizzleNoteRepository implements NoteRepository {
         this.db
           .select({ value: count() })
           .from(notes)
-          .where(eq(notes.bookId, bookId)),
+          .where(and(eq(notes.bookId, bookId), listable)),
       ]),
       mapRepositoryError,
     ).map(([items, c]) => ({
@@ -176,6 +254,59 @@ export class DrizzleNoteRepository implements NoteRepository {
     );
   }
 
+  /**
+   * 指定したブックIDのノートを目次用に本文を除いて取得する
+   */
+  listTreeItemsByBookId(bookId: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .select({
+          id: notes.id,
+          path: notes.path,
+          title: notes.title,
+          sortOrder: notes.sortOrder,
+        })
+        .from(notes)
+        .where(and(eq(notes.bookId, bookId), listable)),
+      mapRepositoryError,
+    );
+  }
+
+  /**
+   * 指定したリンク先のいずれかへウィキリンクしているノート一覧を取得する
+   */
+  findByLinkTargets(bookId: string, targets: string[]) {
+    return ResultAsync.fromPromise(
+      this.db
+        .selectDistinct({ note: notes })
+        .from(notes)
+        .innerJoin(noteLinks, eq(notes.id, noteLinks.noteId))
+        .where(
+          and(
+            eq(notes.bookId, bookId),
+            inArray(noteLinks.target, targets),
+            listable,
+          ),
+        )
+        .orderBy(asc(notes.title)),
+      mapRepositoryError,
+    ).map((items) => items.map((i) => i.note));
+  }
+
+  /**
+   * 指定したアセットを参照しているノート一覧を取得する
+   */
+  findByAsset(bookId: string, path: string) {
+    return ResultAsync.fromPromise(
+      this.db
+        .selectDistinct({ note: notes })
+        .from(notes)
+        .innerJoin(noteAssets, eq(notes.id, noteAssets.noteId))
+        .where(and(eq(notes.bookId, bookId), eq(noteAssets.path, path))),
+      mapRepositoryError,
+    ).map((items) => items.map((i) => i.note));
+  }
+
   /**
    * 指定したブックID、タグIDのノート一覧を取得する
    */
@@ -195,7 +326,9 @@ export class DrizzleNoteRepository implements NoteRepository {
           .from(notes)
           .innerJoin(noteTags, eq(notes.id, noteTags.noteId))
           .innerJoin(tags, eq(noteTags.tagId, tags.id))
-          .where(and(eq(notes.bookId, bookId), eq(noteTags.tagId, tagId)))
+          .where(
+            and(eq(notes.bookId, bookId), eq(noteTags.tagId, tagId), listable),
+          )
           .limit(limit)
           .offset(offset)
           .orderBy(this.getOrderBy(pagination)),
@@ -203,7 +336,9 @@ export class DrizzleNoteRepository implements NoteRepository {
           .select({ value: count() })
           .from(notes)
           .innerJoin(noteTags, eq(notes.id, noteTags.noteId))
-          .where(and(eq(notes.bookId, bookId), eq(noteTags.tagId, tagId))),
+          .where(
+            and(eq(notes.bookId, bookId), eq(noteTags.tagId, tagId), listable),
+          ),
       ]),
       mapRepositoryError,
     ).map(([items, c]) => ({
@@ -217,28 +352,75 @@ export class DrizzleNoteRepository implements NoteRepository {
    */
   search(
     bookId?: string | null,
-    query?: string | null,
+    query?: SearchQuery | null,
     pagination?: PaginationParams,
   ) {
     const page = pagination?.page || 1;
     const limit = pagination?.limit || 10;
     const offset = (page - 1) * limit;
 
+    const keywords = query ? getSearchKeywords(query) : [];
+
     const filters = [
+      listable,
       bookId ? eq(notes.bookId, bookId) : undefined,
-      query
-        ? or(like(notes.title, `%${query}%`), like(notes.body, `%${query}%`))
-        : undefined,
+      ...keywords.map((keyword) =>
+        or(like(notes.title, `%${keyword}%`), like(notes.body, `%${keyword}%`)),
+      ),
+      ...(query?.tags || []).map((tag) =>
+        exists(
+          this.db
+            .select({ id: noteTags.noteId })
+            .from(noteTags)
+            .innerJoin(tags, eq(noteTags.tagId, tags.id))
+            .where(and(eq(noteTags.noteId, notes.id), eq(tags.name, tag))),
+        ),
+      ),
+      ...(query?.books || []).map((book) => {
+        const [owner, repo] = book.includes("/")
+          ? book.split("/", 2)
+          : [null, book];
+        return exists(
+          this.db
+            .select({ id: books.id })
+            .from(books)
+            .where(
+              and(
+                eq(books.id, notes.bookId),
+                sql`lower(${books.repo}) = lower(${repo})`,
+                owner
+                  ? sql`lower(${books.owner}) = lower(${owner})`
+                  : undefined,
+              ),
+            ),
+        );
+      }),
     ].filter((filter) => filter !== undefined);
 
+    // タイトルに一致したキーワードの数で順位付けする
+    const rank =
+      keywords.length > 0
+        ? sql<number>`(${sql.join(
+            keywords.map(
+              (keyword) =>
+                sql`(case when ${notes.title} like ${`%${keyword}%`} then 1 else 0 end)`,
+            ),
+            sql` + `,
+          )})`
+        : sql<number>`0`;
+
     const sq = this.db.$with("sq").as(
       this.db
         .select({
           id: notes.id,
+          rank: rank.as("rank"),
         })
         .from(notes)
         .where(and(...filters))
-        .orderBy(this.getOrderBy(pagination))
+        .orderBy(
+          ...(keywords.length > 0 ? [desc(rank)] : []),
+          this.getOrderBy(pagination),
+        )
         .limit(limit)
         .offset(offset),
     );
@@ -256,7 +438,10 @@ export class DrizzleNoteRepository implements NoteRepository {
           .innerJoin(notes, eq(sq.id, notes.id))
           .innerJoin(users, eq(notes.userId, users.id))
           .innerJoin(books, eq(notes.bookId, books.id))
-          .orderBy(this.getOrderBy(pagination)),
+          .orderBy(
+            ...(keywords.length > 0 ? [desc(sq.rank)] : []),
+            this.getOrderBy(pagination),
+          ),
         this.db
           .select({ value: count() })
           .from(notes)
@@ -266,12 +451,43 @@ export class DrizzleNoteRepository implements NoteRepository {
     ).map(([items, c]) => ({
       items: items.map((i) => ({
         ...i.note,
-        fullPath: `${i.user.handle}/${i.book.owner}/${i.book.repo}/${i.note.path}`,
+        fullPath: `${getBookPath(i.user.handle, i.book)}/${i.note.path}`,
       })),
       count: c.at(0)?.value || 0,
     }));
   }
 
+  /**
+   * 指定したブックID、pathのノートを別のpathに移動する
+   */
+  move(bookId: string, fromPath: string, toPath: string) {
+    return ResultAsync.fromPromise(
+      this.db.transaction(async (tx) => {
+        await tx
+          .delete(notes)
+          .where(and(eq(notes.bookId, bookId), eq(notes.path, toPath)));
+
+        const [movedNote] = await tx
+          .update(notes)
+          .set({ path: toPath })
+          .where(and(eq(notes.bookId, bookId), eq(notes.path, fromPath)))
+          .returning();
+
+        return movedNote;
+      }),
+      mapRepositoryError,
+    ).andThen((movedNote) =>
+      movedNote
+        ? ok(movedNote)
+        : err(
+            new RepositoryError(
+              RepositoryErrorCode.NOT_FOUND,
+              "Note not found",
+            ),
+          ),
+    );
+  }
+
   /**
    * 指定したIDのノートを削除する
    */
@@ -301,7 +517,8 @@ export class DrizzleNoteRepository implements NoteRepository {
         .select({
           count: count(),
         })
-        .from(notes),
+        .from(notes)
+        .where(listable),
       mapRepositoryError,
     ).map((results) => results.at(0)?.count || 0);
   }
@@ -313,6 +530,7 @@ export class DrizzleNoteRepository implements NoteRepository {
         .from(notes)
         .innerJoin(books, eq(notes.bookId, books.id))
         .innerJoin(users, eq(notes.userId, users.id))
+        .where(listable)
         .orderBy(asc(notes.id))
         .limit(limit)
         .offset((page - 1) * limit),
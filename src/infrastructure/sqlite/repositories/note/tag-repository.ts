@@ -1,8 +1,9 @@
+import { NoteScope } from "@/domain/note/models/note";
 import type { TagRepository } from "@/domain/note/repositories";
-import { eq, inArray } from "drizzle-orm";
+import { and, eq, exists, inArray } from "drizzle-orm";
 import { ResultAsync } from "neverthrow";
 import { type Database, mapRepositoryError } from "../../client";
-import { noteTags, tags } from "../../schema/note";
+import { noteTags, notes, tags } from "../../schema/note";
 
 /**
  * TagRepositoryの実装
@@ -29,10 +30,30 @@ export class DrizzleTagRepository implements TagRepository {
 
   /**
    * 指定したブックIDのタグ一覧を取得する
+   * 限定公開のノートにしか使われていないタグは含めない
    */
   findByBookId(bookId: string) {
     return ResultAsync.fromPromise(
-      this.db.select().from(tags).where(eq(tags.bookId, bookId)),
+      this.db
+        .select()
+        .from(tags)
+        .where(
+          and(
+            eq(tags.bookId, bookId),
+            exists(
+              this.db
+                .select({ id: noteTags.noteId })
+                .from(noteTags)
+                .innerJoin(notes, eq(noteTags.noteId, notes.id))
+                .where(
+                  and(
+                    eq(noteTags.tagId, tags.id),
+                    eq(notes.scope, NoteScope.PUBLIC),
+                  ),
+                ),
+            ),
+          ),
+        ),
       mapRepositoryError,
     );
   }
@@ -1,6 +1,8 @@
+import type { GitHubPush } from "@/domain/note/dtos/github-push";
 import { NoteScope } from "@/domain/note/models/note";
 import { relations, sql } from "drizzle-orm";
 import {
+  index,
   integer,
   primaryKey,
   sqliteTable,
@@ -22,7 +24,40 @@ export const books = sqliteTable(
       .references(() => users.id, { onDelete: "cascade" }),
     owner: text("owner").notNull(),
     repo: text("repo").notNull(),
+    slug: text("slug").notNull().default(""),
     webhookId: integer("webhook_id").notNull(),
+    branch: text("branch"),
+    rootPath: text("root_path"),
+    ignore: text("ignore", { mode: "json" })
+      .notNull()
+      .$type<string[]>()
+      .default([]),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`)
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    ownerRepoSlugIndex: uniqueIndex("owner_repo_slug_idx").on(
+      t.owner,
+      t.repo,
+      t.slug,
+    ),
+  }),
+);
+
+// ブックリダイレクトテーブル（名前の変更や移管前のリポジトリ）
+export const bookRedirects = sqliteTable(
+  "book_redirects",
+  {
+    owner: text("owner").notNull(),
+    repo: text("repo").notNull(),
+    bookId: text("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
     createdAt: integer("created_at", { mode: "timestamp" })
       .notNull()
       .default(sql`(unixepoch())`),
@@ -32,7 +67,34 @@ export const books = sqliteTable(
       .$onUpdate(() => new Date()),
   },
   (t) => ({
-    ownerRepoIndex: uniqueIndex("owner_repo_idx").on(t.owner, t.repo),
+    pk: primaryKey({ columns: [t.owner, t.repo] }),
+  }),
+);
+
+// ブックメンバーテーブル
+export const bookMembers = sqliteTable(
+  "book_members",
+  {
+    bookId: text("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: text("role", { enum: ["owner", "editor"] })
+      .notNull()
+      .default("editor"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`)
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.bookId, t.userId] }),
+    userIndex: index("book_members_user_id_idx").on(t.userId),
   }),
 );
 
@@ -43,6 +105,7 @@ export const bookDetails = sqliteTable("book_details", {
     .references(() => books.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description").notNull(),
+  summary: text("summary"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -58,9 +121,11 @@ export const syncStatuses = sqliteTable("sync_statuses", {
     .primaryKey()
     .references(() => books.id, { onDelete: "cascade" }),
   lastSyncedAt: integer("last_synced_at", { mode: "timestamp" }),
-  status: text("status", { enum: ["waiting", "synced", "error"] })
+  status: text("status", { enum: ["waiting", "syncing", "synced", "error"] })
     .notNull()
     .default("waiting"),
+  commitSha: text("commit_sha"),
+  treeSha: text("tree_sha"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -70,6 +135,135 @@ export const syncStatuses = sqliteTable("sync_statuses", {
     .$onUpdate(() => new Date()),
 });
 
+// ブックファイルテーブル（同期済みファイルのBlob SHA）
+export const bookFiles = sqliteTable(
+  "book_files",
+  {
+    bookId: text("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    path: text("path").notNull(),
+    sha: text("sha").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`)
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.bookId, t.path] }),
+  }),
+);
+
+// ノートリダイレクトテーブル（リネームされたノートの旧パス）
+export const noteRedirects = sqliteTable(
+  "note_redirects",
+  {
+    bookId: text("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    fromPath: text("from_path").notNull(),
+    toPath: text("to_path").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`)
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.bookId, t.fromPath] }),
+  }),
+);
+
+// ノートバージョンテーブル（コミット時点のノートのMarkdownのキャッシュ）
+export const noteVersions = sqliteTable(
+  "note_versions",
+  {
+    bookId: text("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    path: text("path").notNull(),
+    commitSha: text("commit_sha").notNull(),
+    content: text("content").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.bookId, t.path, t.commitSha] }),
+  }),
+);
+
+// 同期ジョブテーブル（Webhookから受け付けたPushの処理待ち行列）
+export const syncJobs = sqliteTable(
+  "sync_jobs",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => textv7()),
+    bookId: text("book_id")
+      .notNull()
+      .references(() => books.id, { onDelete: "cascade" }),
+    deliveryId: text("delivery_id"),
+    payload: text("payload", { mode: "json" }).notNull().$type<GitHubPush>(),
+    status: text("status", {
+      enum: ["queued", "running", "succeeded", "failed"],
+    })
+      .notNull()
+      .default("queued"),
+    attempts: integer("attempts").notNull().default(0),
+    runAt: integer("run_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    lockedAt: integer("locked_at", { mode: "timestamp" }),
+    error: text("error"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`)
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    statusIndex: index("sync_jobs_status_idx").on(t.status, t.runAt),
+    bookIdIndex: index("sync_jobs_book_id_idx").on(t.bookId),
+  }),
+);
+
+// Webhook配信テーブル（IDはX-GitHub-Deliveryヘッダーの値）
+export const webhookDeliveries = sqliteTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(),
+    bookId: text("book_id").references(() => books.id, {
+      onDelete: "cascade",
+    }),
+    event: text("event").notNull(),
+    status: text("status", { enum: ["processing", "succeeded", "failed"] })
+      .notNull()
+      .default("processing"),
+    error: text("error"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`)
+      .$onUpdate(() => new Date()),
+  },
+  (t) => ({
+    bookIdIndex: index("webhook_deliveries_book_id_idx").on(
+      t.bookId,
+      t.createdAt,
+    ),
+  }),
+);
+
 // タグテーブル
 export const tags = sqliteTable(
   "tags",
@@ -109,6 +303,16 @@ export const notes = sqliteTable(
     title: text("title").notNull(),
     body: text("body").notNull(),
     scope: text("scope").notNull().$type<NoteScope>().default(NoteScope.PUBLIC),
+    audience: text("audience", { mode: "json" })
+      .notNull()
+      .$type<string[]>()
+      .default([]),
+    description: text("description"),
+    coverImage: text("cover_image"),
+    publishedAt: integer("published_at", { mode: "timestamp" }),
+    modifiedAt: integer("modified_at", { mode: "timestamp" }),
+    sortOrder: integer("sort_order"),
+    toc: integer("toc", { mode: "boolean" }).notNull().default(true),
     createdAt: integer("created_at", { mode: "timestamp" })
       .notNull()
       .default(sql`(unixepoch())`),
@@ -138,6 +342,63 @@ export const noteTags = sqliteTable(
   }),
 );
 
+// ノートからのウィキリンクのリンク先
+export const noteLinks = sqliteTable(
+  "note_links",
+  {
+    noteId: text("note_id")
+      .notNull()
+      .references(() => notes.id, { onDelete: "cascade" }),
+    target: text("target").notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.noteId, t.target] }),
+    targetIndex: index("note_links_target_idx").on(t.target),
+  }),
+);
+
+// ノートから参照しているリポジトリ内のアセット
+export const noteAssets = sqliteTable(
+  "note_assets",
+  {
+    noteId: text("note_id")
+      .notNull()
+      .references(() => notes.id, { onDelete: "cascade" }),
+    path: text("path").notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.noteId, t.path] }),
+    pathIndex: index("note_assets_path_idx").on(t.path),
+  }),
+);
+
+// ノートリビジョンテーブル（ノートのファイルを変更したコミット）
+export const noteRevisions = sqliteTable(
+  "note_revisions",
+  {
+    noteId: text("note_id")
+      .notNull()
+      .references(() => notes.id, { onDelete: "cascade" }),
+    commitSha: text("commit_sha").notNull(),
+    message: text("message").notNull(),
+    authorName: text("author_name"),
+    authorLogin: text("author_login"),
+    blobSha: text("blob_sha"),
+    url: text("url").notNull(),
+    committedAt: integer("committed_at", { mode: "timestamp" }).notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.noteId, t.commitSha] }),
+    committedAtIndex: index("note_revisions_committed_at_idx").on(
+      t.noteId,
+      t.committedAt,
+    ),
+  }),
+);
+
 // リレーションの定義
 export const booksRelations = relations(books, ({ one, many }) => ({
   user: one(users, {
@@ -179,12 +440,91 @@ export const notesRelations = relations(notes, ({ one, many }) => ({
     references: [books.id],
   }),
   tags: many(noteTags),
+  links: many(noteLinks),
+  assets: many(noteAssets),
 }));
 
+export const bookFilesRelations = relations(bookFiles, ({ one }) => ({
+  book: one(books, {
+    fields: [bookFiles.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const bookRedirectsRelations = relations(bookRedirects, ({ one }) => ({
+  book: one(books, {
+    fields: [bookRedirects.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const bookMembersRelations = relations(bookMembers, ({ one }) => ({
+  book: one(books, {
+    fields: [bookMembers.bookId],
+    references: [books.id],
+  }),
+  user: one(users, {
+    fields: [bookMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const noteRedirectsRelations = relations(noteRedirects, ({ one }) => ({
+  book: one(books, {
+    fields: [noteRedirects.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const noteVersionsRelations = relations(noteVersions, ({ one }) => ({
+  book: one(books, {
+    fields: [noteVersions.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const syncJobsRelations = relations(syncJobs, ({ one }) => ({
+  book: one(books, {
+    fields: [syncJobs.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const webhookDeliveriesRelations = relations(
+  webhookDeliveries,
+  ({ one }) => ({
+    book: one(books, {
+      fields: [webhookDeliveries.bookId],
+      references: [books.id],
+    }),
+  }),
+);
+
 export const tagsRelations = relations(tags, ({ many }) => ({
   notes: many(noteTags),
 }));
 
+export const noteLinksRelations = relations(noteLinks, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteLinks.noteId],
+    references: [notes.id],
+  }),
+}));
+
+export const noteAssetsRelations = relations(noteAssets, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteAssets.noteId],
+    references: [notes.id],
+  }),
+}));
+
+export const noteRevisionsRelations = relations(noteRevisions, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteRevisions.noteId],
+    references: [notes.id],
+  }),
+}));
+
 export const noteTagsRelations = relations(noteTags, ({ one }) => ({
   note: one(notes, {
     fields: [noteTags.noteId],
@@ -40,7 +40,9 @@ export const posts = sqliteTable(
       name: "book_notepath_fkey",
       columns: [t.bookId, t.notePath],
       foreignColumns: [notes.bookId, notes.path],
-    }).onDelete("cascade"),
+    })
+      .onDelete("cascade")
+      .onUpdate("cascade"),
   }),
 );
 
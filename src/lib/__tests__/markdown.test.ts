@@ -0,0 +1,83 @@
+import { expect, test } from "vitest";
+import { mdToHtml } from "../markdown";
+
+/**
+ * コードブロックをHTMLに変換し、行ごとの要素とコードブロックの要素を取得する
+ */
+async function renderCodeBlock(info: string, code: string) {
+  const container = document.createElement("div");
+  container.innerHTML = await mdToHtml(`\`\`\`${info}\n${code}\n\`\`\``);
+  return {
+    title: container.querySelector(".code-block-title")?.textContent ?? null,
+    pre: container.querySelector("pre") as HTMLPreElement,
+    code: container.querySelector("code") as HTMLElement,
+    lines: [...container.querySelectorAll("code > .line")],
+  };
+}
+
+test("ファイル名と言語を指定したコードブロックを変換するとファイル名と言語のクラスが付くこと", async () => {
+  const { title, code } = await renderCodeBlock(
+    "ts:src/foo:bar.ts",
+    "const a = 1;",
+  );
+
+  expect(title).toBe("src/foo:bar.ts");
+  expect(code.className).toBe("hljs language-ts");
+});
+
+test("行番号とハイライトする行を指定したコードブロックを変換すると指定した行にクラスが付くこと", async () => {
+  const { pre, lines } = await renderCodeBlock(
+    "js {1,3-4} showLineNumbers",
+    "a();\nb();\nc();\nd();\ne();",
+  );
+
+  expect(pre.className).toBe("line-numbers");
+  expect(lines.map((line) => line.className)).toEqual([
+    "line highlighted",
+    "line",
+    "line highlighted",
+    "line highlighted",
+    "line",
+  ]);
+});
+
+test("diff-言語名のコードブロックを変換すると行頭の記号を除いて追加・削除行のクラスが付くこと", async () => {
+  const { code, lines } = await renderCodeBlock(
+    "diff-js",
+    "-const a = 1;\n+const a = 2;\n same();",
+  );
+
+  expect(code.className).toBe("hljs language-js");
+  expect(lines.map((line) => [line.className, line.textContent])).toEqual([
+    ["line removed", "const a = 1;"],
+    ["line added", "const a = 2;"],
+    ["line", "same();"],
+  ]);
+});
+
+test("複数行にまたがるハイライトを含むコードブロックを変換すると各行でspanが閉じられること", async () => {
+  const { lines } = await renderCodeBlock("js", "/* a\nb */\nc();");
+
+  expect(lines.map((line) => line.textContent)).toEqual([
+    "/* a",
+    "b */",
+    "c();",
+  ]);
+  expect(
+    lines
+      .slice(0, 2)
+      .map((line) => line.querySelector(".hljs-comment")?.textContent),
+  ).toEqual(["/* a", "b */"]);
+});
+
+test("対応していない言語のコードブロックを変換するとエスケープのみ行うこと", async () => {
+  const { title, pre, code, lines } = await renderCodeBlock(
+    "unknown",
+    "<b>&</b>",
+  );
+
+  expect(title).toBeNull();
+  expect(pre.className).toBe("");
+  expect(code.className).toBe("hljs");
+  expect(lines.map((line) => line.textContent)).toEqual(["<b>&</b>"]);
+});
@@ -1,14 +1,328 @@
-import { Marked, Renderer, type Tokens } from "marked";
+import { getBookPath } from "@/domain/note/models/book";
+import { type Note, isNotePath, toNotePath } from "@/domain/note/models/note";
+import { getAssetContentType } from "@/domain/note/services/asset-content-type";
+import { resolveRepoPath } from "@/domain/note/services/asset-reference";
+import { resolveWikiLink } from "@/domain/note/services/wiki-link";
+import hljs from "highlight.js";
+import {
+  Marked,
+  Renderer,
+  type TokenizerAndRendererExtension,
+  type Tokens,
+} from "marked";
 
-export async function mdToHtml(markdown: string) {
+/**
+ * Markdownファイルのリポジトリ内での位置
+ */
+export type MarkdownLocation = {
+  handle: string;
+  owner: string;
+  repo: string;
+  /**
+   * ブックのスラッグ。空文字の場合はリポジトリの既定のブック
+   */
+  slug: string;
+  path: string;
+  /**
+   * 同じブックで公開されているノート
+   */
+  notes: Pick<Note, "path" | "title">[];
+  /**
+   * プレビューの場合はアセットの取得に使うプレビューのトークン
+   */
+  previewToken?: string;
+};
+
+/**
+ * 相対パスで参照されたアセットを、APIで配信するURLに変換する
+ * 外部URLやアセット以外のファイルはそのまま返す
+ */
+export function resolveAssetUrl(href: string, location?: MarkdownLocation) {
+  const resolved = location && resolveRepoPath(href, location.path);
+  if (!resolved || !getAssetContentType(resolved.path)) {
+    return href;
+  }
+
+  const assetPath = resolved.path.split("/").map(encodeURIComponent).join("/");
+  const url = `/api/book/${location.owner}/${location.repo}/assets/${assetPath}`;
+  const params = new URLSearchParams();
+  if (location.slug) {
+    params.set("book", location.slug);
+  }
+  if (location.previewToken) {
+    params.set("preview", location.previewToken);
+  }
+  return params.size > 0 ? `${url}?${params}` : url;
+}
+
+/**
+ * 相対パスで参照されたノートを@mdのURLに変換する
+ * 公開されていないノートの場合はnullを返す
+ */
+function resolveNoteUrl(
+  resolved: { path: string; hash: string },
+  location: MarkdownLocation,
+) {
+  const bookUrl = getBookPath(location.handle, location);
+  if (resolved.path === "README.md") {
+    return bookUrl;
+  }
+
+  const notePath = toNotePath(resolved.path);
+  return isNotePath(resolved.path) &&
+    location.notes.some((note) => note.path === notePath)
+    ? `${bookUrl}/${encodeURIComponent(notePath)}${resolved.hash}`
+    : null;
+}
+
+/**
+ * 見出しのテキストからアンカー用のidを作る
+ * 日本語などの文字は残し、記号を取り除いて空白をハイフンにする
+ */
+export function slugify(text: string) {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(#\d+|[a-z]+);/gi, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+/**
+ * 同じ文書内で重複しない見出しのidを作る関数を返す
+ * 重複した場合は末尾に連番を付ける
+ */
+function createSlugger() {
+  const used = new Set<string>();
+  return (text: string) => {
+    const base = slugify(text) || "section";
+    let slug = base;
+    for (let i = 1; used.has(slug); i++) {
+      slug = `${base}-${i}`;
+    }
+    used.add(slug);
+    return slug;
+  };
+}
+
+/**
+ * 見出しの型定義
+ */
+export type Heading = {
+  depth: number;
+  id: string;
+  text: string;
+};
+
+/**
+ * mdToHtmlで変換したHTMLから見出しの一覧を取り出す
+ */
+export function extractHeadings(html: string): Heading[] {
+  return html
+    .matchAll(/<h([1-6]) id="([^"]+)">([\s\S]*?)<\/h\1>/g)
+    .map((match) => ({
+      depth: Number.parseInt(match[1], 10),
+      id: match[2],
+      text: match[3]
+        .replace(/<[^>]*>/g, "")
+        .replaceAll("&lt;", "<")
+        .replaceAll("&gt;", ">")
+        .replaceAll("&quot;", '"')
+        .replaceAll("&#39;", "'")
+        .replaceAll("&amp;", "&"),
+    }))
+    .toArray();
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+/**
+ * コードブロックの情報文字列の解釈結果
+ * 例: ```ts:src/foo.ts {1,3-5} showLineNumbers
+ */
+type CodeFence = {
+  lang: string;
+  filename: string | null;
+  highlightedLines: Set<number>;
+  showLineNumbers: boolean;
+  /**
+   * diffまたはdiff-言語名の場合は行頭の+と-を追加・削除行として扱う
+   */
+  diff: boolean;
+};
+
+function parseCodeFence(info = ""): CodeFence {
+  const [spec = "", ...options] = info.trim().split(/\s+/);
+  const [name, ...filename] = spec.split(":");
+  const diffMatch = /^diff(?:-(.+))?$/.exec(name);
+
+  const highlightedLines = new Set<number>();
+  for (const option of options) {
+    const ranges = /^\{([\d,\s-]+)\}$/.exec(option)?.[1].split(",") || [];
+    for (const range of ranges) {
+      const [start, end = start] = range.split("-").map(Number);
+      for (let line = start; line <= end && line - start < 10000; line++) {
+        highlightedLines.add(line);
+      }
+    }
+  }
+
+  return {
+    lang: diffMatch ? diffMatch[1] || "" : name,
+    filename: filename.join(":") || null,
+    highlightedLines,
+    showLineNumbers: options.includes("showLineNumbers"),
+    diff: !!diffMatch,
+  };
+}
+
+/**
+ * ハイライト済みのHTMLを行ごとに分割する
+ * 複数行にまたがるspanは行ごとに閉じて次の行で開き直す
+ */
+function splitHighlightedLines(html: string) {
+  const open: string[] = [];
+  return html.split("\n").map((line) => {
+    const prefix = open.join("");
+    for (const [tag] of line.matchAll(/<span[^>]*>|<\/span>/g)) {
+      if (tag === "</span>") {
+        open.pop();
+      } else {
+        open.push(tag);
+      }
+    }
+    return `${prefix}${line}${"</span>".repeat(open.length)}`;
+  });
+}
+
+/**
+ * コードブロックをハイライトし、ファイル名や行番号などの装飾を付ける
+ * 対応していない言語の場合はエスケープのみ行う
+ */
+function renderCode(text: string, info?: string) {
+  const fence = parseCodeFence(info);
+  const markers: string[] = [];
+  const code = fence.diff
+    ? text
+        .split("\n")
+        .map((line) => {
+          const marker = line[0];
+          markers.push(marker);
+          return marker === "+" || marker === "-" || marker === " "
+            ? line.slice(1)
+            : line;
+        })
+        .join("\n")
+    : text;
+
+  const language = hljs.getLanguage(fence.lang) ? fence.lang : null;
+  const html = language
+    ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+    : escapeHtml(code);
+
+  const lines = splitHighlightedLines(html).map((line, i) => {
+    const classes = ["line"];
+    if (fence.highlightedLines.has(i + 1)) {
+      classes.push("highlighted");
+    }
+    if (markers[i] === "+") {
+      classes.push("added");
+    }
+    if (markers[i] === "-") {
+      classes.push("removed");
+    }
+    return `<span class="${classes.join(" ")}">${line}</span>`;
+  });
+
+  const title = fence.filename
+    ? `<div class="code-block-title">${escapeHtml(fence.filename)}</div>`
+    : "";
+  const preClass = fence.showLineNumbers ? ' class="line-numbers"' : "";
+  const codeClass = language ? `hljs language-${escapeHtml(language)}` : "hljs";
+  return `<div class="code-block">${title}<button type="button" class="code-block-copy" aria-label="Copy code">Copy</button><pre${preClass}><code class="${codeClass}">${lines.join("\n")}</code></pre></div>\n`;
+}
+
+/**
+ * ウィキリンク（[[ノート名]]、[[パス|表示名]]）を同じブックのノートへのリンクにする
+ * リンク先のノートが公開されていない場合はテキストとして表示する
+ */
+function wikiLinkExtension(
+  location?: MarkdownLocation,
+): TokenizerAndRendererExtension {
+  return {
+    name: "wikiLink",
+    level: "inline",
+    start(src) {
+      return src.match(/!?\[\[/)?.index;
+    },
+    tokenizer(src) {
+      const match = /^(!?)\[\[([^[\]|]+)(?:\|([^[\]]+))?\]\]/.exec(src);
+      if (match) {
+        return {
+          type: "wikiLink",
+          raw: match[0],
+          embed: match[1] === "!",
+          target: match[2].trim(),
+          text: (match[3] || match[2]).trim(),
+        };
+      }
+    },
+    renderer(token) {
+      const text = escapeHtml(token.text);
+      const note =
+        location && !token.embed
+          ? resolveWikiLink(token.target, location.notes)
+          : undefined;
+      if (!location || !note) {
+        return token.embed ? escapeHtml(token.raw) : text;
+      }
+
+      const [, heading] = token.target.split("#");
+      const hash = heading ? `#${encodeURIComponent(slugify(heading))}` : "";
+      return `<a href="${getBookPath(location.handle, location)}/${encodeURIComponent(note.path)}${hash}">${text}</a>`;
+    },
+  };
+}
+
+export async function mdToHtml(markdown: string, location?: MarkdownLocation) {
   const renderer = new Renderer();
+  const slug = createSlugger();
   const marked = new Marked({
+    extensions: [wikiLinkExtension(location)],
     renderer: {
+      code({ text, lang }: Tokens.Code) {
+        return renderCode(text, lang);
+      },
+      heading({ tokens, depth }: Tokens.Heading) {
+        const text = this.parser.parseInline(tokens);
+        return `<h${depth} id="${slug(text)}">${text}</h${depth}>\n`;
+      },
       table(token: Tokens.Table) {
         return `<div>${renderer.table.apply(this, [token])}</div>`;
       },
+      image(token: Tokens.Image) {
+        return renderer.image.apply(this, [
+          { ...token, href: resolveAssetUrl(token.href, location) },
+        ]);
+      },
       link({ href, title, text }: Tokens.Link) {
-        return `<a target="_blank" rel="noreferrer noopener" href="${href}" title="${title}">${text}</a>`;
+        const resolved = location && resolveRepoPath(href, location.path);
+        if (location && resolved?.path.endsWith(".md")) {
+          // 公開されていないノートへのリンクはテキストとして表示する
+          const noteUrl = resolveNoteUrl(resolved, location);
+          return noteUrl
+            ? `<a href="${noteUrl}"${title ? ` title="${title}"` : ""}>${text}</a>`
+            : text;
+        }
+
+        return `<a target="_blank" rel="noreferrer noopener" href="${resolveAssetUrl(href, location)}" title="${title}">${text}</a>`;
       },
     },
   });